@@ -2,48 +2,206 @@ import { baseFixture } from "./src/fixtures/playwrap.js";
 import { stepSequenceHelper } from "./src/chaining/stepSequenceHelper.js";
 import { browserHelper } from "./src/channel/browserHelper.js";
 import { requestHelper } from "./src/channel/requestHelper.js";
+import { pageFlowHelper } from "./src/channel/pageFlowHelper.js";
+import { roleHelper } from "./src/channel/roleHelper.js";
+import { mockHelper } from "./src/channel/mockHelper.js";
 import { frameworkDataHelper } from "./src/data/frameworkDataHelper.js";
 import { testDataHelper } from "./src/data/testDataHelper.js";
-import { type ErrorListenerOptions } from "./src/types/frameworkTypes.js";
+import { pageTypeHelper } from "./src/data/pageTypeHelper.js";
+import { contextPresetHelper } from "./src/data/contextPresetHelper.js";
+import { errorListener } from "./src/listeners/errorListener.js";
+import { cleanupHelper } from "./src/teardown/cleanupHelper.js";
+import {
+  type AliasOrIndex,
+  type CapturedError,
+  type ErrorCategory,
+  type ErrorIgnoreRule,
+  type ErrorIgnoreRules,
+  type ErrorListenerOptions,
+  type HarMode,
+  type Lazy,
+  type MockOptions,
+  type MockResponse,
+  type NewContextOptions,
+  type NewTabOptions,
+  type NextPageTypeOf,
+  type PageFlow,
+  type PageTypeDetector,
+  type PageTypeOf,
+  type PlaywrapReporterOptions,
+  type RequestBuilder,
+  type RequestOptions,
+  type ResponseKey,
+  type RoleDefinition,
+  type StepBudget,
+  type StepOptions,
+  type StepTiming,
+  type StoredResponse,
+  type TabEvent,
+  type TestDataRegistry,
+  type TestDataValue,
+  type WorkingTabClosePolicy,
+} from "./src/types/frameworkTypes.js";
 
-const { addStep, stepSequence } = stepSequenceHelper;
+const {
+  addStep,
+  addStepGroup,
+  when,
+  forEach,
+  repeatUntil,
+  resolveLazy,
+  stepSequence,
+} = stepSequenceHelper;
 const {
   workingTab,
   openNewTabInCurrentContext,
   openNewTabInNewContext,
   switchWorkingTab,
+  switchToPopup,
+  navigate,
+  assertPageType,
   closeContext,
   closeTab,
 } = browserHelper;
+const { definePageFlow } = pageFlowHelper;
+const { registerRole, browserContextAs, requestContextAs } = roleHelper;
+const { addMock, removeMock, listMocks, expectMockHits } = mockHelper;
+const { registerPageType } = pageTypeHelper;
+const { registerContextPreset } = contextPresetHelper;
 const {
   workingRequestContext,
   putExtraHeader,
+  putExtraHeaderStep,
   getExtraHeaders,
   openNewContext,
+  openNewContextStep,
+  openNewContextFromWorkingTab,
+  browserContextFromWorkingContext,
   openNewThrowAwayContext,
+  openNewThrowAwayContextStep,
   switchWorkingContext,
+  switchWorkingContextStep,
+  closeContext: closeRequestContext,
+  closeContextStep: closeRequestContextStep,
+  get: sendGetRequest,
+  post: sendPostRequest,
+  put: sendPutRequest,
+  patch: sendPatchRequest,
+  delete: sendDeleteRequest,
 } = requestHelper;
+const {
+  addIgnoreRules: addErrorIgnoreRules,
+  suspend: suspendErrorListener,
+  clearIgnoreRules: clearErrorIgnoreRules,
+  ignoringApiErrors,
+} = errorListener;
+const { registerCleanup } = cleanupHelper;
 const { baseUrl, browser } = frameworkDataHelper;
-const { pushTestData, getTestData } = testDataHelper;
+const {
+  pushTestData,
+  getTestData,
+  getLatest: getLatestTestData,
+  getAll: getAllTestData,
+  ref: testDataRef,
+  refAll: allTestDataRef,
+  has: hasTestData,
+  update: updateTestData,
+  remove: removeTestData,
+  worker: workerTestData,
+  run: runTestData,
+} = testDataHelper;
 export {
   baseUrl,
   browser,
   stepSequence,
   addStep,
+  addStepGroup,
+  when,
+  forEach,
+  repeatUntil,
+  resolveLazy,
   workingTab,
   openNewTabInCurrentContext,
   openNewTabInNewContext,
   switchWorkingTab,
+  switchToPopup,
+  navigate,
+  assertPageType,
+  registerPageType,
+  registerContextPreset,
+  definePageFlow,
+  registerRole,
+  browserContextAs,
+  requestContextAs,
+  addMock,
+  removeMock,
+  listMocks,
+  expectMockHits,
   closeContext,
   closeTab,
   workingRequestContext,
   putExtraHeader,
+  putExtraHeaderStep,
   getExtraHeaders,
   openNewContext,
+  openNewContextStep,
+  openNewContextFromWorkingTab,
+  browserContextFromWorkingContext,
   openNewThrowAwayContext,
+  openNewThrowAwayContextStep,
   switchWorkingContext,
+  switchWorkingContextStep,
+  closeRequestContext,
+  closeRequestContextStep,
+  sendGetRequest,
+  sendPostRequest,
+  sendPutRequest,
+  sendPatchRequest,
+  sendDeleteRequest,
+  addErrorIgnoreRules,
+  suspendErrorListener,
+  clearErrorIgnoreRules,
+  ignoringApiErrors,
+  registerCleanup,
   baseFixture,
   pushTestData,
   getTestData,
+  getLatestTestData,
+  getAllTestData,
+  testDataRef,
+  allTestDataRef,
+  hasTestData,
+  updateTestData,
+  removeTestData,
+  workerTestData,
+  runTestData,
+  type AliasOrIndex,
+  type CapturedError,
+  type ErrorCategory,
+  type ErrorIgnoreRule,
+  type ErrorIgnoreRules,
   type ErrorListenerOptions,
+  type HarMode,
+  type Lazy,
+  type MockOptions,
+  type MockResponse,
+  type NewContextOptions,
+  type NewTabOptions,
+  type NextPageTypeOf,
+  type PageFlow,
+  type PageTypeDetector,
+  type PageTypeOf,
+  type PlaywrapReporterOptions,
+  type RequestBuilder,
+  type RequestOptions,
+  type ResponseKey,
+  type RoleDefinition,
+  type StepBudget,
+  type StepOptions,
+  type StepTiming,
+  type StoredResponse,
+  type TabEvent,
+  type TestDataRegistry,
+  type TestDataValue,
+  type WorkingTabClosePolicy,
 };
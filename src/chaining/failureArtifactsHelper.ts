@@ -0,0 +1,163 @@
+/**
+ * @description This module captures diagnostics of the browser state when a step fails.
+ * It attaches a screenshot, the URL, page type and context preset, and an ARIA snapshot of the working tab,
+ * along with a list of all open contexts and tabs, to the failed step in the report.
+ */
+
+import type { Page, TestStepInfo } from "@playwright/test";
+import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { tabDataHelper } from "../data/tabDataHelper.js";
+import { aliasDataHelper } from "../data/aliasDataHelper.js";
+import { pageTypeHelper } from "../data/pageTypeHelper.js";
+
+/** Maximum time in milliseconds a single capture can take, so that a hung page does not block the test */
+const captureTimeout = 5000;
+
+/** Errors whose artifacts have already been attached, so that parent steps of a failed step skip them */
+const capturedErrors = new WeakSet<object>();
+
+/**
+ * Bounds a capture that has no timeout of its own, e.g. reading the title or content of a page.
+ *
+ * @param capture - The pending capture
+ * @returns The result of the capture
+ * @throws Error if the capture does not settle within the capture timeout
+ */
+async function withCaptureTimeout<T>(capture: Promise<T>) {
+  let timer: undefined | NodeJS.Timeout;
+  try {
+    return await Promise.race([
+      capture,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(new Error(`Capture timed out after ${captureTimeout}ms`)),
+          captureTimeout
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * @returns The working tab, or undefined if no tab has been opened or it was closed
+ */
+function workingTabIfOpen() {
+  try {
+    return tabDataHelper.workingTab();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @param workingTab - The working tab, if any
+ * @returns All open contexts and their tabs, marking the working tab
+ */
+function openTabs(workingTab: undefined | Page) {
+  return frameworkDataHelper
+    .browser()
+    .contexts()
+    .map((context, contextIndex) => ({
+      context: aliasDataHelper.alias(context) ?? contextIndex,
+      preset: tabDataHelper.contextPreset(context),
+      tabs: context.pages().map((tab, tabIndex) => ({
+        tab: aliasDataHelper.alias(tab) ?? tabIndex,
+        url: tab.url(),
+        pageType: tabDataHelper.pageType(tab),
+        working: tab === workingTab,
+      })),
+    }));
+}
+
+/**
+ * Attaches a description of the working tab's page to the failed step.
+ * Captures that fail, e.g. because the page has crashed, are skipped.
+ *
+ * @param stepInfo - The step info of the failed step
+ * @param workingTab - The working tab
+ */
+async function attachWorkingTab(stepInfo: TestStepInfo, workingTab: Page) {
+  let pageType: undefined | string;
+  try {
+    pageType = await withCaptureTimeout(
+      pageTypeHelper.resolvePageType(workingTab)
+    );
+  } catch {
+    console.log("Could not resolve the page type of the working Tab");
+  }
+  await stepInfo.attach("playwrap-working-tab", {
+    body: JSON.stringify(
+      {
+        url: workingTab.url(),
+        pageType,
+        preset: tabDataHelper.contextPreset(workingTab.context()),
+      },
+      null,
+      2
+    ),
+    contentType: "application/json",
+  });
+  try {
+    await stepInfo.attach("playwrap-screenshot", {
+      body: await workingTab.screenshot({ timeout: captureTimeout }),
+      contentType: "image/png",
+    });
+  } catch {
+    console.log("Could not capture a screenshot of the working Tab");
+  }
+  try {
+    await stepInfo.attach("playwrap-aria-snapshot", {
+      body: await workingTab
+        .locator("body")
+        .ariaSnapshot({ timeout: captureTimeout }),
+      contentType: "text/yaml",
+    });
+  } catch {
+    try {
+      await stepInfo.attach("playwrap-html", {
+        body: await withCaptureTimeout(workingTab.content()),
+        contentType: "text/html",
+      });
+    } catch {
+      console.log("Could not capture the content of the working Tab");
+    }
+  }
+}
+
+/**
+ * Attaches diagnostics of the browser state to a failed step.
+ * The diagnostics are attached once per error, to the innermost step that failed.
+ * Never throws, so that the error of the step is not replaced by an error of the capture.
+ *
+ * @param stepInfo - The step info of the failed step
+ * @param error - The error that failed the step
+ */
+async function attach(stepInfo: TestStepInfo, error: unknown) {
+  if (error instanceof Object) {
+    if (capturedErrors.has(error)) return;
+    capturedErrors.add(error);
+  }
+  try {
+    const workingTab = workingTabIfOpen();
+    if (workingTab && !workingTab.isClosed())
+      await attachWorkingTab(stepInfo, workingTab);
+    await stepInfo.attach("playwrap-open-tabs", {
+      body: JSON.stringify(openTabs(workingTab), null, 2),
+      contentType: "application/json",
+    });
+  } catch {
+    console.log("Could not capture the failure artifacts of the step");
+  }
+}
+
+/**
+ * Helper module for capturing diagnostics when a step fails.
+ *
+ * It is used by the step sequence, when failure artifacts are enabled through the fixture options.
+ */
+export const failureArtifactsHelper = {
+  attach,
+} as const;
@@ -4,13 +4,86 @@
  * sequential execution and proper error reporting that points directly to the test file.
  */
 
-import { test } from "@playwright/test";
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { expect, test } from "@playwright/test";
+import type { Lazy, StepOptions } from "../types/frameworkTypes.js";
+import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { failureArtifactsHelper } from "./failureArtifactsHelper.js";
+import { stepTimingHelper } from "./stepTimingHelper.js";
 
 /**
- * Regular expression that matches stack trace rows pointing to spec files.
- * Uses the testDir from Playwright config and accounts for different path separators.
+ * Lists the ways a module can appear in stack trace rows: its path, its URL and,
+ * if it is compiled with a source map next to it, the paths of its sources.
+ * Only the paths are read from the source map. Line and column numbers are not mapped.
+ *
+ * @param file - The absolute path of the module
+ * @returns The locations of the module in stack trace rows
+ */
+function stackLocations(file: string) {
+  const locations = [file, pathToFileURL(file).href];
+  try {
+    const sourceMap = JSON.parse(readFileSync(`${file}.map`, "utf8")) as {
+      sourceRoot?: string;
+      sources?: string[];
+    };
+    for (const source of sourceMap.sources ?? [])
+      locations.push(
+        resolve(dirname(file), sourceMap.sourceRoot ?? "", source)
+      );
+  } catch {
+    // The module has no source map
+  }
+  return locations;
+}
+
+/**
+ * The locations of this module in stack trace rows
+ */
+const ownLocations = stackLocations(fileURLToPath(import.meta.url));
+
+/**
+ * The locations of the spec files in stack trace rows, keyed by the spec file path
  */
-const testFilePath = /(\\|\/).+.spec.ts:[0-9]+:[0-9]+/;
+const specLocations = new Map<string, string[]>();
+
+/**
+ * @param row - A row of an error stack trace
+ * @param locations - The locations of a module in stack trace rows
+ * @returns Whether the row points to the module
+ */
+function pointsTo(row: string, locations: readonly string[]) {
+  return locations.some((location) => row.includes(`${location}:`));
+}
+
+/**
+ * Creates a check of whether a stack trace row points to the spec file.
+ *
+ * The spec file is matched by the configured pattern, if any. Otherwise, it is the file of the
+ * running test, so that any testMatch is supported. Rows of compiled spec files are matched if they
+ * point to the compiled file or, through its source map, to its source file. Their line and column
+ * numbers are kept as they are, since only the rows are matched.
+ *
+ * @returns The check, or undefined if no pattern is configured and no test is running, e.g. in a hook of a worker fixture
+ */
+function testCallRowMatcher(): undefined | ((row: string) => boolean) {
+  const specFilePattern = frameworkDataHelper.specFilePattern();
+  if (specFilePattern) return (row) => specFilePattern.test(row);
+  let specFile: string;
+  try {
+    specFile = test.info().file;
+  } catch {
+    return undefined;
+  }
+  let locations = specLocations.get(specFile);
+  if (!locations) {
+    locations = stackLocations(specFile);
+    specLocations.set(specFile, locations);
+  }
+  const specFileLocations = locations;
+  return (row) => pointsTo(row, specFileLocations);
+}
 
 /**
  * A Promise chain representing the pending test steps
@@ -18,21 +91,78 @@ const testFilePath = /(\\|\/).+.spec.ts:[0-9]+:[0-9]+/;
 let stepSequence = Promise.resolve();
 
 /**
- * Searches the callstack for a row pointing to a .spec.ts file.
+ * The title of the innermost step that is currently running, if any
+ */
+let currentStepTitle: undefined | string;
+
+/**
+ * A step group whose child steps are currently being queued
+ */
+interface StepGroup {
+  /** A Promise chain representing the pending child steps of the group */
+  sequence: Promise<void>;
+  /** The error created when the outermost group was added, pointing to its call in the spec file */
+  callSite: Error;
+}
+
+/**
+ * The step groups whose child steps are currently being queued, innermost last
+ */
+const buildingGroups: StepGroup[] = [];
+
+/**
+ * The failures of soft steps that have not been reported yet
+ */
+const softFailures: { title: string; error: unknown }[] = [];
+
+/**
+ * Searches the callstack for a row pointing to the spec file.
+ *
+ * When several rows match, e.g. because a helper defined in the spec file adds the step,
+ * the outermost one is returned, as it points to the test body.
  *
  * @param callStack - The error stack trace as a string
- * @returns The row from the stack trace that points to the spec file
- * @throws Error if no matching row or multiple matching rows are found
+ * @param isTestCallRow - Checks whether a row points to the spec file
+ * @returns The outermost row from the stack trace that points to the spec file, if any
+ */
+function getTestCallRowInStack(
+  callStack: string,
+  isTestCallRow: (row: string) => boolean
+) {
+  return callStack.split("\n").filter(isTestCallRow).at(-1);
+}
+
+/**
+ * Modifies the stack of an error thrown by a step to point to the row containing the step,
+ * rather than the row containing `await`, and removes the rows of this module.
+ * Only spec file rows outside the rows of this module are considered `await` rows, so that the row
+ * of a callback defined in the spec file, which threw the error, is kept, e.g. in a step group.
+ * Errors that did not pass through this module, or are thrown while no test is running
+ * and no spec file pattern is configured, are left untouched.
+ *
+ * @param error - The error thrown by the step
+ * @param myError - The error pointing to the call that added the step
  */
-function getTestCallRowInStack(callStack: string) {
-  const testCallRows = callStack
-    .split("\n")
-    .filter((row) => testFilePath.test(row));
-  const testCallRow = testCallRows[0];
-  if (!testCallRow) throw new Error(`Found 0 rows matching ${testFilePath}`);
-  else if (testCallRows.length > 1)
-    throw new Error(`Found multiple rows matching ${testFilePath}`);
-  return testCallRow;
+function rewriteStack(error: Error, myError: Error) {
+  if (!error.stack || !myError.stack) return;
+  const rows = error.stack.split("\n");
+  const firstOwnRow = rows.findIndex((row) => pointsTo(row, ownLocations));
+  if (firstOwnRow === -1) return;
+  const isTestCallRow = testCallRowMatcher();
+  if (!isTestCallRow) return;
+  const stepCallRow = getTestCallRowInStack(myError.stack, isTestCallRow);
+  const promiseAwaitRow = getTestCallRowInStack(
+    rows.slice(firstOwnRow).join("\n"),
+    isTestCallRow
+  );
+  const promiseAwaitRowIndex =
+    stepCallRow && promiseAwaitRow ? rows.lastIndexOf(promiseAwaitRow) : -1;
+  error.stack = rows
+    .map((row, index) =>
+      index === promiseAwaitRowIndex && stepCallRow ? stepCallRow : row
+    )
+    .filter((row) => !pointsTo(row, ownLocations))
+    .join("\n");
 }
 
 /**
@@ -45,6 +175,17 @@ function getTestCallRowInStack(callStack: string) {
  */
 function resetStepSequence() {
   stepSequence = Promise.resolve();
+  currentStepTitle = undefined;
+  buildingGroups.length = 0;
+  softFailures.length = 0;
+}
+
+/**
+ * @returns An error pointing to the call that is adding a step. Steps added while a group is being
+ * built share the call site of the outermost group, since their own call stack no longer contains the spec file
+ */
+function stepCallSite() {
+  return buildingGroups.at(-1)?.callSite ?? new Error();
 }
 
 /**
@@ -55,30 +196,294 @@ function resetStepSequence() {
  *
  * @param title - The name of the step to display in test reports
  * @param callback - The function to execute as part of this step
+ * @param options - Optional retries, timeout, soft failure and boxing of the step
  */
-function addStep(title: string, callback: () => void | Promise<void>) {
-  const myError = new Error();
+function addStep(
+  title: string,
+  callback: () => void | Promise<void>,
+  options: StepOptions = {}
+) {
+  queueStep(title, callback, stepCallSite(), options);
+}
+
+/**
+ * Adds a step that groups the steps queued by the build callback as its children.
+ *
+ * The build callback runs lazily, when the group step is reached in the sequence.
+ * The child steps run in order within the group step, before the steps that follow the group.
+ * If a child step fails, the error stack points to the row that added the outermost group.
+ *
+ * @param title - The name of the group step to display in test reports
+ * @param build - The function that queues the child steps, e.g. by calling chainable page object methods
+ * @param options - Optional retries, timeout, soft failure and boxing of the group step.
+ * Retrying a group rebuilds and reruns all of its child steps
+ */
+function addStepGroup(
+  title: string,
+  build: () => void,
+  options: StepOptions = {}
+) {
+  const callSite = stepCallSite();
+  queueStep(title, () => runChildSteps(build, callSite), callSite, options);
+}
+
+/**
+ * Queues the child steps of a group, and runs them.
+ * It is called from within the running group step.
+ *
+ * @param build - The function that queues the child steps
+ * @param callSite - The error pointing to the call that added the outermost group
+ */
+async function runChildSteps(build: () => void, callSite: Error) {
+  const group: StepGroup = { sequence: Promise.resolve(), callSite };
+  buildingGroups.push(group);
+  try {
+    build();
+  } finally {
+    buildingGroups.pop();
+  }
+  await group.sequence;
+}
+
+/**
+ * Resolves a value that may be provided lazily, e.g. test data stored by a previous step
+ *
+ * @param value - The value, or a function returning it
+ * @returns The value, or the result of the function
+ */
+async function resolveLazy<T>(value: Lazy<T>) {
+  return typeof value === "function"
+    ? await (value as () => T | Promise<T>)()
+    : value;
+}
+
+/**
+ * Adds a step that queues and runs its child steps only if a condition holds when the step is reached,
+ * e.g. dismissing a cookie banner only if it is visible.
+ *
+ * @param predicate - The condition, evaluated when the step is reached
+ * @param build - The function that queues the child steps
+ * @param title - The name of the step to display in test reports
+ */
+function when(
+  predicate: Lazy<boolean>,
+  build: () => void,
+  title = "Running conditional steps"
+) {
+  const callSite = stepCallSite();
+  queueStep(
+    title,
+    async () => {
+      if (await resolveLazy(predicate)) await runChildSteps(build, callSite);
+      else console.log(`Skipping "${title}"`);
+    },
+    callSite,
+    {}
+  );
+}
+
+/**
+ * Adds a step that queues and runs the child steps once for each value,
+ * with the values resolved when the step is reached, e.g. all rows pushed to test data by previous steps.
+ *
+ * @param valuesProvider - The values, or a function returning them
+ * @param build - The function that queues the child steps for a value
+ * @param title - The name of the step to display in test reports
+ */
+function forEach<T>(
+  valuesProvider: Lazy<readonly T[]>,
+  build: (value: T, index: number) => void,
+  title = "Running steps for each value"
+) {
+  const callSite = stepCallSite();
+  queueStep(
+    title,
+    async () => {
+      const values = await resolveLazy(valuesProvider);
+      await runChildSteps(
+        () => values.forEach((value, index) => build(value, index)),
+        callSite
+      );
+    },
+    callSite,
+    {}
+  );
+}
+
+/**
+ * Adds a step that repeatedly queues and runs the child steps until a condition holds.
+ * The condition is evaluated before every iteration, so the child steps may not run at all.
+ *
+ * @param condition - The condition that ends the loop
+ * @param build - The function that queues the child steps of an iteration
+ * @param options - The maximum number of iterations, and the name of the step to display in test reports
+ * @throws Error if the condition does not hold after the maximum number of iterations
+ */
+function repeatUntil(
+  condition: Lazy<boolean>,
+  build: (iteration: number) => void,
+  options: { max: number; title?: string }
+) {
+  const title = options.title ?? "Repeating steps until condition is met";
+  const callSite = stepCallSite();
+  queueStep(
+    title,
+    async () => {
+      for (let iteration = 0; !(await resolveLazy(condition)); iteration++) {
+        if (iteration >= options.max)
+          throw new Error(
+            `Condition of "${title}" not met after ${options.max} iterations`
+          );
+        await runChildSteps(() => build(iteration), callSite);
+      }
+    },
+    callSite,
+    {}
+  );
+}
+
+/**
+ * Runs a step callback, retrying it with an exponential backoff until it succeeds or runs out of retries
+ *
+ * @param title - The name of the step, used in the retry log
+ * @param callback - The function to execute as part of the step
+ * @param retries - How many times the callback is retried after failing
+ * @param backoff - Delay in milliseconds before the first retry, doubled before every further retry
+ */
+async function runWithRetries(
+  title: string,
+  callback: () => void | Promise<void>,
+  retries: number,
+  backoff: number
+) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await callback();
+      return;
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      console.log(`Retrying "${title}" (${attempt + 1}/${retries})`);
+      await new Promise((resolve) =>
+        setTimeout(resolve, backoff * 2 ** attempt)
+      );
+    }
+  }
+}
+
+/**
+ * Clears the failures of soft steps and describes them
+ *
+ * @returns A row per failure since they were last reported
+ */
+function takeSoftFailures() {
+  return softFailures
+    .splice(0)
+    .map(
+      ({ title, error }) =>
+        `- ${title}: ${error instanceof Error ? error.message : String(error)}`
+    );
+}
+
+/**
+ * @param failures - The rows describing the failures of soft steps
+ * @returns A summary of the failures
+ */
+function summarizeSoftFailures(failures: string[]) {
+  return `${failures.length} soft step(s) failed:\n${failures.join("\n")}`;
+}
+
+/**
+ * Throws an error listing the failures of soft steps, if any, and clears them
+ *
+ * @throws If a soft step has failed since the step sequence was last awaited
+ */
+function reportSoftFailures() {
+  const failures = takeSoftFailures();
+  if (failures.length) throw new Error(summarizeSoftFailures(failures));
+}
+
+/**
+ * Adds the failures of soft steps, if any, to the error of a step that stopped the sequence, and clears them,
+ * since the sequence will not reach the point where they would be reported.
+ *
+ * @param error - The error that stopped the sequence
+ */
+function addSoftFailures(error: unknown) {
+  if (!(error instanceof Error) || !softFailures.length) return;
+  const message = error.message;
+  error.message = `${message}\n\n${summarizeSoftFailures(takeSoftFailures())}`;
+  if (error.stack?.includes(message))
+    error.stack = error.stack.replace(message, error.message);
+}
+
+/**
+ * Fails the test, without stopping its teardown, if soft steps failed and were never reported,
+ * e.g. because the test did not await its chain to the end
+ */
+function reportPendingSoftFailures() {
+  const failures = takeSoftFailures();
+  if (failures.length)
+    expect.soft(failures, summarizeSoftFailures(failures)).toHaveLength(0);
+}
+
+/**
+ * Appends a step to the innermost group being built, or to the main sequence,
+ * and handles error stack trace modification.
+ *
+ * @param title - The name of the step to display in test reports
+ * @param callback - The function to execute as part of this step
+ * @param myError - The error pointing to the call that added the step
+ * @param options - Optional retries, timeout, soft failure and boxing of the step
+ */
+function queueStep(
+  title: string,
+  callback: () => void | Promise<void>,
+  myError: Error,
+  options: StepOptions
+) {
+  const { retries = 0, backoff = 0, soft = false, ...stepOptions } = options;
   const step = async () => {
-    await test.step(title, callback);
+    const parentStepTitle = currentStepTitle;
+    currentStepTitle = title;
+    const timing = stepTimingHelper.start(title, parentStepTitle);
+    let passed = false;
+    try {
+      await test.step(
+        title,
+        async (stepInfo) => {
+          try {
+            await runWithRetries(title, callback, retries, backoff);
+          } catch (error) {
+            if (frameworkDataHelper.captureFailureArtifacts())
+              await failureArtifactsHelper.attach(stepInfo, error);
+            throw error;
+          }
+        },
+        stepOptions
+      );
+      passed = true;
+    } catch (error) {
+      if (!soft) {
+        addSoftFailures(error);
+        throw error;
+      }
+      if (error instanceof Error) rewriteStack(error, myError);
+      softFailures.push({ title, error });
+    } finally {
+      currentStepTitle = parentStepTitle;
+      stepTimingHelper.end(timing, passed ? "passed" : "failed");
+    }
   };
-  stepSequence = stepSequence.then(step).catch((error: unknown) => {
+  const group = buildingGroups.at(-1);
+  const sequence = group ? group.sequence : stepSequence;
+  const extendedSequence = sequence.then(step).catch((error: unknown) => {
     if (error instanceof Error) {
-      if (error.stack && myError.stack)
-        if (
-          error.stack.includes(import.meta.url) &&
-          testFilePath.test(myError.stack)
-        ) {
-          const stepCallRow = getTestCallRowInStack(myError.stack);
-          const promiseAwaitRow = getTestCallRowInStack(error.stack);
-          error.stack = error.stack
-            .replace(promiseAwaitRow, stepCallRow)
-            .split("\n")
-            .filter((row) => !row.includes(import.meta.url))
-            .join("\n");
-        }
+      rewriteStack(error, myError);
       throw error;
     }
   });
+  if (group) group.sequence = extendedSequence;
+  else stepSequence = extendedSequence;
 }
 
 /**
@@ -89,6 +494,10 @@ function addStep(title: string, callback: () => void | Promise<void>) {
  * 2. Modifying error stack traces to point to the row containing the failed step,
  * rather than the row containing `await`
  * 3. Providing a clean pattern for adding steps and executing the sequence
+ * 4. Retrying flaky steps, and letting soft steps fail without stopping the sequence
+ * 5. Attaching diagnostics of the working tab to failed steps
+ * 6. Branching and looping on runtime state, through steps that queue their child steps when they are reached
+ * 7. Recording the duration of every step in a timeline
  *
  * @example
  * // In a page object file:
@@ -99,6 +508,14 @@ function addStep(title: string, callback: () => void | Promise<void>) {
  *   return this; // Enable chaining
  * }
  *
+ * // A page object method composed of other chainable methods:
+ * function checkout() {
+ *   stepSequenceHelper.addStepGroup("Checkout", () => {
+ *     this.fillAddress().choosePayment();
+ *   });
+ *   return this;
+ * }
+ *
  * // In a test file:
  * test("should perform actions in sequence", async () => {
  *   await myPage
@@ -110,8 +527,17 @@ function addStep(title: string, callback: () => void | Promise<void>) {
  */
 export const stepSequenceHelper = {
   stepSequence() {
-    return stepSequence;
+    return stepSequence.then(reportSoftFailures);
+  },
+  currentStepTitle() {
+    return currentStepTitle;
   },
   resetStepSequence,
+  reportPendingSoftFailures,
   addStep,
+  addStepGroup,
+  when,
+  forEach,
+  repeatUntil,
+  resolveLazy,
 } as const;
@@ -0,0 +1,131 @@
+/**
+ * @description This module records the timing of every step queued through the step sequence
+ * in a per-test timeline, along with the page type of the working tab when each step starts
+ * and ends. It attaches the timeline to the report and checks it against the configured budgets.
+ */
+
+import { expect, test } from "@playwright/test";
+import type { StepBudget, StepTiming } from "../types/frameworkTypes.js";
+import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { tabDataHelper } from "../data/tabDataHelper.js";
+
+/** The timings of the steps of the current test, in the order they started */
+const timeline: StepTiming[] = [];
+
+/**
+ * @returns The page type of the working tab, or undefined if there is no working tab
+ */
+function workingPageType() {
+  try {
+    return tabDataHelper.pageType(tabDataHelper.workingTab());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Records the start of a step in the timeline
+ *
+ * @param title - The title of the step
+ * @param parent - The title of the step group the step belongs to, if any
+ * @returns The timing of the step, to be completed when the step ends
+ */
+function start(title: string, parent: undefined | string) {
+  const pageTypeAtStart = workingPageType();
+  const timing: StepTiming = {
+    title,
+    ...(parent !== undefined && { parent }),
+    startTime: Date.now(),
+    duration: 0,
+    ...(pageTypeAtStart !== undefined && { pageTypeAtStart }),
+    status: "failed",
+  };
+  timeline.push(timing);
+  return timing;
+}
+
+/**
+ * Records the end of a step in the timeline
+ *
+ * @param timing - The timing returned when the step started
+ * @param status - Whether the step passed or failed
+ */
+function end(timing: StepTiming, status: StepTiming["status"]) {
+  timing.duration = Date.now() - timing.startTime;
+  timing.status = status;
+  const pageTypeAtEnd = workingPageType();
+  if (pageTypeAtEnd !== undefined) timing.pageTypeAtEnd = pageTypeAtEnd;
+}
+
+/**
+ * @param budget - The budget to check
+ * @param timing - The timing of a step
+ * @returns Whether the budget applies to the step
+ */
+function appliesTo(budget: StepBudget, timing: StepTiming) {
+  if (
+    budget.title !== undefined &&
+    !(typeof budget.title === "string"
+      ? timing.title.includes(budget.title)
+      : budget.title.test(timing.title))
+  )
+    return false;
+  return (
+    budget.pageType === undefined || budget.pageType === timing.pageTypeAtEnd
+  );
+}
+
+/**
+ * Attaches the timeline of the current test to the report, and checks it against the configured budgets.
+ *
+ * Steps exceeding a "warn" budget are added to the report as warning annotations.
+ * Steps exceeding a "fail" budget are reported as soft assertion failures,
+ * so that the original error of the test is not hidden.
+ */
+async function reportTimeline() {
+  await test.info().attach("playwrap-step-timeline", {
+    body: JSON.stringify(timeline, null, 2),
+    contentType: "application/json",
+  });
+  const failures: string[] = [];
+  for (const budget of frameworkDataHelper.stepBudgets())
+    for (const timing of timeline) {
+      if (!appliesTo(budget, timing) || timing.duration <= budget.maxDuration)
+        continue;
+      const violation = `"${timing.title}" took ${timing.duration}ms, over the budget of ${budget.maxDuration}ms`;
+      if (budget.severity === "warn")
+        test
+          .info()
+          .annotations.push({ type: "warning", description: violation });
+      else failures.push(violation);
+    }
+  expect
+    .soft(
+      failures,
+      `${failures.length} step(s) exceeded their budget:\n${failures.join(
+        "\n"
+      )}`
+    )
+    .toHaveLength(0);
+}
+
+/**
+ * Clears the timeline
+ *
+ * This method is typically called at the start of a test to ensure a clean state.
+ */
+function resetTimeline() {
+  timeline.length = 0;
+}
+
+/**
+ * Helper module for measuring the duration of steps.
+ *
+ * It lets teams spot slow flows in the report, and guard them with budgets, without a separate tool.
+ */
+export const stepTimingHelper = {
+  start,
+  end,
+  reportTimeline,
+  resetTimeline,
+} as const;
@@ -4,60 +4,125 @@
  * The module maintains a concept of "working tab" which represents the currently focused browser tab.
  */
 
-import { type BrowserContext, type Page, expect } from "@playwright/test";
+import {
+  type BrowserContext,
+  type BrowserContextOptions,
+  type Page,
+  expect,
+} from "@playwright/test";
+import type {
+  AliasOrIndex,
+  NewContextOptions,
+  NewTabOptions,
+} from "../types/frameworkTypes.js";
 import { errorListener } from "../listeners/errorListener.js";
 import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { aliasDataHelper } from "../data/aliasDataHelper.js";
 import { stepSequenceHelper } from "../chaining/stepSequenceHelper.js";
 import { tabDataHelper } from "../data/tabDataHelper.js";
+import { pageTypeHelper } from "../data/pageTypeHelper.js";
+import { contextPresetHelper } from "../data/contextPresetHelper.js";
+import { mockHelper } from "./mockHelper.js";
 
-/** The currently focused browser tab */
-let workingTab: Page;
+/**
+ * @returns The currently focused browser tab
+ * @throws If no tab has been opened, or the working tab has been closed
+ */
+function workingTab() {
+  return tabDataHelper.workingTab();
+}
 
 /**
  * @returns The browser context of the currently focused tab
  */
 function workingContext() {
-  return workingTab.context();
+  return workingTab().context();
+}
+
+/**
+ * Resolves a context reference, failing with a descriptive message if it does not exist
+ *
+ * @param context - The alias or index of the context
+ * @returns The referenced browser context
+ */
+function expectContext(context: AliasOrIndex) {
+  const browserContext = aliasDataHelper.find(
+    frameworkDataHelper.browser().contexts(),
+    context
+  );
+  expect(
+    browserContext,
+    `Context ${aliasDataHelper.label(context)} not found`
+  ).toBeDefined();
+  return browserContext as BrowserContext;
 }
 
 /**
- * @returns The index of the working context
+ * Resolves a tab reference, failing with a descriptive message if it does not exist
+ *
+ * @param context - The alias or index of the context containing the tab
+ * @param tab - The alias or index of the tab within its context
+ * @returns The referenced tab
  */
-function workingContextIndex() {
-  return frameworkDataHelper.browser().contexts().indexOf(workingContext());
+function expectTab(context: AliasOrIndex, tab: AliasOrIndex) {
+  const page = aliasDataHelper.find(expectContext(context).pages(), tab);
+  expect(
+    page,
+    `Tab ${aliasDataHelper.tabLabel(context, tab)} not found`
+  ).toBeDefined();
+  return page as Page;
 }
 
 /**
- * @returns The index of the working tab within its context
+ * Attaches the error listener to a newly created tab and starts tracking its page type.
+ * Tabs that are already tracked are left untouched, so the method can be called both from
+ * the context's page event and explicitly after a tab is created.
+ *
+ * @param tab - The newly created tab
  */
-function workingTabIndex() {
-  return workingContext().pages().indexOf(workingTab);
+function instrumentTab(tab: Page) {
+  if (tabDataHelper.isTracked(tab)) return;
+  errorListener.attachTo(tab);
+  tabDataHelper.trackTab(tab);
 }
 
 /**
- * @returns The index of the most recently created browser context
+ * Starts tracking a newly created browser context.
+ * Every tab opened in it, including popups opened by the application, is instrumented automatically.
+ * Abnormal WebSocket closures are detected in it, if enabled, before any route of the test is added.
+ * The mocks that apply to all contexts are routed in it, and its HAR file is recorded or replayed.
+ *
+ * @param context - The newly created browser context
  */
-function latestContextIndex() {
-  return frameworkDataHelper.browser().contexts().length - 1;
+async function instrumentContext(context: BrowserContext) {
+  await errorListener.attachToContext(context);
+  await mockHelper.attachTo(context);
+  tabDataHelper.trackContext(context);
+  context.on("page", instrumentTab);
+  for (const tab of context.pages()) instrumentTab(tab);
 }
 
 /**
- * @param contextIndex - The index of the context to check
- * @returns The index of the most recently created tab in a specific context
+ * Starts tracking a newly created tab and sets it as the working tab
+ *
+ * @param tab - The newly created tab
  */
-function latestTabIndex(contextIndex: number) {
-  const context = frameworkDataHelper.getContext(contextIndex);
-  return context.pages().length - 1;
+function registerTab(tab: Page) {
+  instrumentTab(tab);
+  tabDataHelper.setWorkingTab(tab);
 }
 
 /**
- * Updates the working tab reference to point to a specific tab
+ * Sets the page type of a tab, after verifying that the tab shows it, if the page type has a registered detector
  *
- * @param contextIndex - The index of the context containing the tab
- * @param tabIndex - The index of the tab within its context
+ * @param tab - The tab to update
+ * @param pageType - The page type the tab is expected to show
+ * @param label - The description of the tab in the error message
  */
-function updateWorkingTab(contextIndex: number, tabIndex: number) {
-  workingTab = frameworkDataHelper.getPage(contextIndex, tabIndex);
+async function declarePageType(tab: Page, pageType: string, label: string) {
+  if (pageTypeHelper.isRegistered(pageType))
+    await pageTypeHelper.verify(tab, pageType, label);
+  tabDataHelper.updatePageType(tab, pageType);
 }
 
 /**
@@ -65,56 +130,159 @@ function updateWorkingTab(contextIndex: number, tabIndex: number) {
  *
  * This method:
  * - Creates a new page in the same context as the current working tab
+ * - Names the new tab, if an alias is provided
  * - Attaches the error listener to the new page
- * - Initializes page type for the new tab
+ * - Starts tracking the page type of the new tab
  * - Sets the new tab as the working tab
+ *
+ * @param currentPageType - Page type to set on the current working tab before opening the new one
+ * @param options - Optional alias for the new tab
  */
-function openNewTabInCurrentContext<T extends string>(currentPageType: T) {
-  stepSequenceHelper.addStep("Opening new Tab in current Context", async () => {
-    console.log("Opening new Tab in current Context");
-    tabDataHelper.updatePageType(
-      workingContextIndex(),
-      workingTabIndex(),
-      currentPageType
-    );
+function openNewTabInCurrentContext<T extends string>(
+  currentPageType: T,
+  options: NewTabOptions = {}
+) {
+  const title = options.tabAlias
+    ? `Opening new Tab "${options.tabAlias}" in current Context`
+    : "Opening new Tab in current Context";
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    await declarePageType(workingTab(), currentPageType, "Working Tab");
     const newPage = await workingContext().newPage();
-    errorListener.attachTo(newPage);
-    tabDataHelper.initializePageType(
-      workingContextIndex(),
-      latestTabIndex(workingContextIndex())
-    );
-    updateWorkingTab(
-      workingContextIndex(),
-      latestTabIndex(workingContextIndex())
-    );
+    if (options.tabAlias)
+      aliasDataHelper.setAlias(
+        newPage,
+        options.tabAlias,
+        workingContext().pages()
+      );
+    registerTab(newPage);
   });
 }
 
 /**
  * Opens a new tab in a new browser context and sets it as the working tab
  *
+ * The context is created with the options of the preset, if any, and the overrides.
+ * They are passed to the callback, if provided, e.g. to log in as a role on a mobile device.
+ * Their extra HTTP headers are recorded, unless the callback recorded the headers it created the context with.
+ *
  * @param openAuthenticatedContextCb The callback to create an authenticated browser context
+ * @param currentPageType - Page type to set on the current working tab before opening the new one
+ * @param options - Optional aliases for the new context and its tab, and the preset and overrides of the new context
+ * @throws Will throw an error if the preset is not registered
  */
 function openNewTabInNewContext<T extends string>(
-  openAuthenticatedContextCb?: () => Promise<BrowserContext>,
-  currentPageType?: T
+  openAuthenticatedContextCb?: (
+    options: BrowserContextOptions
+  ) => Promise<BrowserContext>,
+  currentPageType?: T,
+  options: NewContextOptions = {}
 ) {
-  stepSequenceHelper.addStep("Opening new Tab in new Context", async () => {
-    console.log("Opening new Tab in new Context");
+  const title = `${
+    options.contextAlias
+      ? `Opening new Tab in new Context "${options.contextAlias}"`
+      : "Opening new Tab in new Context"
+  }${options.preset ? ` with preset "${options.preset}"` : ""}`;
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    const contextOptions = contextPresetHelper.contextOptions(
+      options.preset,
+      options.overrides
+    );
     if (currentPageType)
-      tabDataHelper.updatePageType(
-        workingContextIndex(),
-        workingTabIndex(),
-        currentPageType
-      );
+      await declarePageType(workingTab(), currentPageType, "Working Tab");
     const newContext = openAuthenticatedContextCb
-      ? await openAuthenticatedContextCb()
-      : await frameworkDataHelper.browser().newContext();
+      ? await openAuthenticatedContextCb(contextOptions)
+      : await frameworkDataHelper.browser().newContext(contextOptions);
+    if (options.preset)
+      tabDataHelper.setContextPreset(newContext, options.preset);
+    if (
+      contextOptions.extraHTTPHeaders &&
+      !tabDataHelper.contextExtraHeaders(newContext)
+    )
+      tabDataHelper.setContextExtraHeaders(
+        newContext,
+        contextOptions.extraHTTPHeaders
+      );
+    if (options.contextAlias)
+      aliasDataHelper.setAlias(
+        newContext,
+        options.contextAlias,
+        frameworkDataHelper.browser().contexts()
+      );
+    await instrumentContext(newContext);
     const newTab = await newContext.newPage();
-    errorListener.attachTo(newTab);
-    tabDataHelper.initializeContextPageTypes();
-    tabDataHelper.initializePageType(latestContextIndex(), 0);
-    updateWorkingTab(latestContextIndex(), 0);
+    if (options.tabAlias)
+      aliasDataHelper.setAlias(newTab, options.tabAlias, newContext.pages());
+    registerTab(newTab);
+  });
+}
+
+/**
+ * Performs an action on the working tab that opens a popup, and sets the popup as the working tab
+ *
+ * This method:
+ * - Updates the page type of the current working tab
+ * - Runs the triggering action while waiting for the popup (target=_blank links, window.open, OAuth windows)
+ * - Names the popup, if an alias is provided
+ * - Sets the page type of the popup
+ * - Sets the popup as the working tab
+ *
+ * @param triggerCb - The action that opens the popup. It receives the current working tab
+ * @param currentPageType - Page type to set on the current working tab before the action
+ * @param popupPageType - Page type to set on the popup
+ * @param options - Optional alias for the popup
+ */
+function switchToPopup<T extends string>(
+  triggerCb: (tab: Page) => Promise<void>,
+  currentPageType: T,
+  popupPageType: T,
+  options: NewTabOptions = {}
+) {
+  const title = `Switching working Tab to ${popupPageType} popup`;
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    const openerTab = workingTab();
+    await declarePageType(openerTab, currentPageType, "Working Tab");
+    const [popup] = await Promise.all([
+      openerTab.waitForEvent("popup"),
+      triggerCb(openerTab),
+    ]);
+    if (options.tabAlias)
+      aliasDataHelper.setAlias(
+        popup,
+        options.tabAlias,
+        popup.context().pages()
+      );
+    registerTab(popup);
+    await declarePageType(popup, popupPageType, "Popup");
+  });
+}
+
+/**
+ * Performs an action on the working tab that navigates it to another page type
+ *
+ * This method:
+ * - Updates the page type of the working tab before the action
+ * - Runs the navigating action, e.g. submitting a login form
+ * - Verifies the working tab shows the next page type, if it has a registered detector
+ * - Updates the page type of the working tab
+ *
+ * @param actionCb - The action that navigates the working tab. It receives the working tab
+ * @param currentPageType - Page type to set on the working tab before the action
+ * @param nextPageType - Page type the working tab shows after the action
+ */
+function navigate<T extends string>(
+  actionCb: (tab: Page) => Promise<void>,
+  currentPageType: T,
+  nextPageType: T
+) {
+  const title = `Navigating from ${currentPageType} to ${nextPageType} Page`;
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    await declarePageType(workingTab(), currentPageType, "Working Tab");
+    await actionCb(workingTab());
+    await declarePageType(workingTab(), nextPageType, "Working Tab");
   });
 }
 
@@ -122,81 +290,92 @@ function openNewTabInNewContext<T extends string>(
  * Switches the working tab to a different tab and performs page type validation
  *
  * This method:
- * - Verifies the target context and tab indices are valid
+ * - Verifies the target context and tab exist
  * - Ensures we're not already on the requested tab
- * - Verifies the target tab has the expected page type
+ * - Verifies the target tab shows the expected page type, through its detector if registered,
+ * or else against the page type it was given or inferred to have
  * - Updates the page type of the previous working tab
  * - Sets the target tab as the working tab
  *
- * @param contextIndex - The index of the target context
- * @param tabIndex - The index of the target tab within its context
+ * @param context - The alias or index of the target context
+ * @param tab - The alias or index of the target tab within its context
  * @param currentPageType - Page type to set on the current working tab before switching
  * @param nextPageType - Expected page type of the target tab
- * @throws Will throw an error if target indices are invalid or page type doesn't match
+ * @throws Will throw an error if the target tab is not found or page type doesn't match
  */
 function switchWorkingTab<T extends string>(
-  contextIndex: number,
-  tabIndex: number,
+  context: AliasOrIndex,
+  tab: AliasOrIndex,
   currentPageType: T,
   nextPageType: T
 ) {
+  const label = aliasDataHelper.tabLabel(context, tab);
   stepSequenceHelper.addStep(
-    `Switching working Tab to [${contextIndex},${tabIndex}] and verifying Page is ${nextPageType}`,
-    () => {
+    `Switching working Tab to ${label} and verifying Page is ${nextPageType}`,
+    async () => {
       console.log(
-        `Switching working Tab to [${contextIndex},${tabIndex}] and verifying Page is ${nextPageType}`
+        `Switching working Tab to ${label} and verifying Page is ${nextPageType}`
       );
+      const page = expectTab(context, tab);
       expect(
-        contextIndex,
-        `Context [${contextIndex}] not found`
-      ).toBeLessThanOrEqual(latestContextIndex());
-      expect(
-        tabIndex,
-        `Tab [${contextIndex},${tabIndex}] not found`
-      ).toBeLessThanOrEqual(latestTabIndex(contextIndex));
-      const alreadyWorkingOnTheTab =
-        contextIndex === workingContextIndex() &&
-        tabIndex === workingTabIndex();
-      expect(
-        alreadyWorkingOnTheTab,
-        `Already working on tab [${contextIndex},${tabIndex}]`
+        page === workingTab(),
+        `Already working on tab ${label}`
       ).toBeFalsy();
-      const actualPageType = tabDataHelper.pageType(contextIndex, tabIndex);
-      expect(actualPageType).toBe(nextPageType);
-      tabDataHelper.updatePageType(
-        workingContextIndex(),
-        workingTabIndex(),
-        currentPageType
-      );
-      updateWorkingTab(contextIndex, tabIndex);
+      expect(
+        tabDataHelper.isTracked(page),
+        `Tab ${label} was not opened through playwrap`
+      ).toBeTruthy();
+      await pageTypeHelper.verify(page, nextPageType, `Tab ${label}`);
+      await declarePageType(workingTab(), currentPageType, "Working Tab");
+      tabDataHelper.updatePageType(page, nextPageType);
+      tabDataHelper.setWorkingTab(page);
     }
   );
 }
 
+/**
+ * Verifies that the working tab shows a page type
+ *
+ * The working tab is checked against the detector of the page type, if registered,
+ * or else against the page type it was given or inferred to have.
+ *
+ * @param pageType - The page type the working tab is expected to show
+ * @throws Will throw an error listing every mismatching criterion of the detector
+ */
+function assertPageType<T extends string>(pageType: T) {
+  const title = `Verifying working Tab is ${pageType} Page`;
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    await pageTypeHelper.verify(workingTab(), pageType, "Working Tab");
+    tabDataHelper.updatePageType(workingTab(), pageType);
+  });
+}
+
 /**
  * Gracefully closes a browser context and all its tabs
  *
  * This method:
- * - Validates the target context index
+ * - Validates the target context reference
  * - Ensures we're not trying to close the working context
  * - Closes all pages in the context
  * - Closes the context itself
- * - Updates tracking data to reflect the changes
  *
- * @param contextIndex - The index of the context to close
+ * Tracking data is updated through the context's close event.
+ *
+ * @param context - The alias or index of the context to close
  * @throws Will throw an error if trying to close an invalid context or the working context
  */
-function closeContext(contextIndex: number) {
-  stepSequenceHelper.addStep(`Closing Context [${contextIndex}]`, async () => {
-    console.log(`Closing Context [${contextIndex}]`);
-    const context = frameworkDataHelper.getContext(contextIndex);
+function closeContext(context: AliasOrIndex) {
+  const label = aliasDataHelper.label(context);
+  stepSequenceHelper.addStep(`Closing Context ${label}`, async () => {
+    console.log(`Closing Context ${label}`);
+    const browserContext = expectContext(context);
     expect(
-      contextIndex,
-      `Context [${contextIndex}] is the Working Context. It cannot be closed`
-    ).not.toEqual(workingContextIndex());
-    for (const page of context.pages()) await page.close();
-    await context.close();
-    tabDataHelper.removeContextPageTypes(contextIndex);
+      browserContext === workingContext(),
+      `Context ${label} is the Working Context. It cannot be closed`
+    ).toBeFalsy();
+    for (const page of browserContext.pages()) await page.close();
+    await browserContext.close();
   });
 }
 
@@ -204,32 +383,27 @@ function closeContext(contextIndex: number) {
  * Closes a specific tab in a browser context
  *
  * This method:
- * - Validates the target context and tab indices
+ * - Validates the target context and tab references
  * - Ensures we're not trying to close the working tab
  * - Closes the specified tab
- * - Updates tracking data to reflect the changes
  *
- * @param contextIndex - The index of the context containing the tab
- * @param tabIndex - The index of the tab to close
+ * Tracking data is updated through the tab's close event.
+ *
+ * @param context - The alias or index of the context containing the tab
+ * @param tab - The alias or index of the tab to close
  * @throws Will throw an error if trying to close an invalid tab or the working tab
  */
-function closeTab(contextIndex: number, tabIndex: number) {
-  stepSequenceHelper.addStep(
-    `Closing Tab [${contextIndex},${tabIndex}]`,
-    async () => {
-      console.log(`Closing Tab [${contextIndex},${tabIndex}]`);
-      const page = frameworkDataHelper.getPage(contextIndex, tabIndex);
-      const attemptingToCloseWorkingTab =
-        contextIndex === workingContextIndex() &&
-        tabIndex === workingTabIndex();
-      expect(
-        attemptingToCloseWorkingTab,
-        `Tab [${contextIndex},${tabIndex}] is the Working Tab. It cannot be closed`
-      ).toBeFalsy();
-      await page.close();
-      tabDataHelper.removeContextPageTypes(contextIndex);
-    }
-  );
+function closeTab(context: AliasOrIndex, tab: AliasOrIndex) {
+  const label = aliasDataHelper.tabLabel(context, tab);
+  stepSequenceHelper.addStep(`Closing Tab ${label}`, async () => {
+    console.log(`Closing Tab ${label}`);
+    const page = expectTab(context, tab);
+    expect(
+      page === workingTab(),
+      `Tab ${label} is the Working Tab. It cannot be closed`
+    ).toBeFalsy();
+    await page.close();
+  });
 }
 
 /**
@@ -254,12 +428,13 @@ async function closeAllContexts() {
  * with proper error handling and validation.
  */
 export const browserHelper = {
-  workingTab() {
-    return workingTab;
-  },
+  workingTab,
   openNewTabInCurrentContext,
   openNewTabInNewContext,
   switchWorkingTab,
+  switchToPopup,
+  navigate,
+  assertPageType,
   closeContext,
   closeTab,
   closeAllContexts,
@@ -0,0 +1,233 @@
+/**
+ * @description This module provides a registry of network mocks for browser contexts.
+ * Mocks are added and removed through chainable steps, either for the working context or for
+ * all contexts, including those opened later in the test. The module also records or replays
+ * a HAR file for every context opened through playwrap.
+ */
+
+import path from "node:path";
+import {
+  expect,
+  test,
+  type BrowserContext,
+  type Route,
+} from "@playwright/test";
+import type {
+  Lazy,
+  MockOptions,
+  MockResponse,
+} from "../types/frameworkTypes.js";
+import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { tabDataHelper } from "../data/tabDataHelper.js";
+import { stepSequenceHelper } from "../chaining/stepSequenceHelper.js";
+
+/** A registered mock, along with the contexts it is routed in */
+interface Mock {
+  url: string | RegExp;
+  response: MockResponse;
+  method: undefined | string;
+  scope: "context" | "all";
+  /** How many requests the mock has fulfilled */
+  hits: number;
+  /** The route handler, shared by all contexts of the mock */
+  handler: (route: Route) => Promise<void>;
+  /** The contexts the mock is routed in */
+  contexts: BrowserContext[];
+}
+
+/** Map storing the mocks of the current test by name */
+const mocks = new Map<string, Mock>();
+
+/** Number of contexts that have been given a HAR file in the current test */
+let harCount = 0;
+
+/**
+ * @param name - The name of the mock
+ * @returns The mock
+ * @throws Error if no mock has been added under the name
+ */
+function getMock(name: string) {
+  const mock = mocks.get(name);
+  if (!mock) throw new Error(`Mock "${name}" not found`);
+  return mock;
+}
+
+/**
+ * Routes a mock in a browser context
+ *
+ * @param mock - The mock to route
+ * @param context - The browser context
+ */
+async function routeMock(mock: Mock, context: BrowserContext) {
+  await context.route(mock.url, mock.handler);
+  mock.contexts.push(context);
+}
+
+/**
+ * Adds a step that stubs the responses of matching requests.
+ * The URL, the response and the options can be provided lazily, e.g. to refer to test data stored by a previous step.
+ *
+ * @param name - The name under which the mock can be removed or asserted later
+ * @param url - URL glob or regular expression of the requests to stub, or a function returning it
+ * @param response - The stubbed response, e.g. { json: { id: 1 } }, { path: "fixtures/orders.json" } or { status: 503 },
+ * or a function returning it
+ * @param options - The HTTP method, and whether the mock applies to the working context or to all contexts,
+ * or a function returning them
+ * @throws If a mock has already been added under the name
+ */
+function addMock(
+  name: string,
+  url: Lazy<string | RegExp>,
+  response: Lazy<MockResponse>,
+  options: Lazy<MockOptions> = {}
+) {
+  const title =
+    typeof options === "function"
+      ? `Adding mock "${name}"`
+      : `Adding mock "${name}" to ${
+          options.scope === "all" ? "all Contexts" : "working Context"
+        }`;
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    expect(mocks.has(name), `Mock "${name}" already exists`).toBeFalsy();
+    const resolvedOptions = await stepSequenceHelper.resolveLazy(options);
+    const scope = resolvedOptions.scope ?? "context";
+    const mock: Mock = {
+      url: await stepSequenceHelper.resolveLazy(url),
+      response: await stepSequenceHelper.resolveLazy(response),
+      method: resolvedOptions.method?.toUpperCase(),
+      scope,
+      hits: 0,
+      handler: async (route) => {
+        if (mock.method && route.request().method() !== mock.method)
+          return route.fallback();
+        mock.hits++;
+        await route.fulfill(mock.response);
+      },
+      contexts: [],
+    };
+    mocks.set(name, mock);
+    const contexts =
+      scope === "all"
+        ? frameworkDataHelper.browser().contexts()
+        : [tabDataHelper.workingTab().context()];
+    for (const context of contexts) await routeMock(mock, context);
+  });
+}
+
+/**
+ * Adds a step that removes a mock from all the contexts it is routed in.
+ *
+ * @param name - The name of the mock
+ * @throws If no mock has been added under the name
+ */
+function removeMock(name: string) {
+  const title = `Removing mock "${name}"`;
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    const mock = getMock(name);
+    mocks.delete(name);
+    for (const context of mock.contexts)
+      await context.unroute(mock.url, mock.handler);
+  });
+}
+
+/**
+ * Adds a step that lists the active mocks and their hit counts as an attachment of the report.
+ */
+function listMocks() {
+  const title = "Listing mocks";
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    const list = [...mocks].map(([name, mock]) => ({
+      name,
+      url: String(mock.url),
+      method: mock.method ?? "*",
+      scope: mock.scope,
+      hits: mock.hits,
+    }));
+    await test.info().attach("playwrap-mocks", {
+      body: JSON.stringify(list, null, 2),
+      contentType: "application/json",
+    });
+  });
+}
+
+/**
+ * Adds a step that verifies how many requests a mock has fulfilled.
+ * Requests still in flight are awaited until the expect timeout.
+ *
+ * @param name - The name of the mock
+ * @param times - The expected number of fulfilled requests
+ * @throws If no mock has been added under the name, or the hit count differs
+ */
+function expectMockHits(name: string, times: number) {
+  const title = `Verifying mock "${name}" was hit ${times} time(s)`;
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    const mock = getMock(name);
+    await expect
+      .poll(() => mock.hits, { message: `Hits of mock "${name}"` })
+      .toBe(times);
+  });
+}
+
+/**
+ * Records or replays the HAR file of a newly created browser context, depending on the configured HAR mode,
+ * and routes the mocks that apply to all contexts.
+ *
+ * The HAR files are stored under the HAR directory, in a directory per project, and per spec file mirroring the
+ * test directory, one per context in the order the contexts are opened, so that replaying a test serves each context
+ * the traffic recorded for it, and projects running the same spec, e.g. in different browsers, do not overwrite each
+ * other's recordings. Their paths do not depend on the platform, so that HAR files recorded on one machine are
+ * replayed on any other.
+ *
+ * @param context - The newly created browser context
+ */
+async function attachTo(context: BrowserContext) {
+  const harMode = frameworkDataHelper.harMode();
+  if (harMode !== "off") {
+    const testInfo = test.info();
+    const testDir = testInfo.project.testDir;
+    const testName = testInfo.titlePath
+      .slice(1)
+      .join("-")
+      .replace(/[^\w-]+/g, "-");
+    const projectName = testInfo.project.name.replace(/[^\w-]+/g, "-");
+    const har = path.join(
+      path.resolve(testDir, frameworkDataHelper.harDir() ?? "__hars__"),
+      projectName,
+      path.relative(testDir, testInfo.file),
+      `${testName}-${harCount++}.har`
+    );
+    await context.routeFromHAR(har, {
+      update: harMode === "record",
+      updateContent: "embed",
+    });
+  }
+  for (const mock of mocks.values())
+    if (mock.scope === "all") await routeMock(mock, context);
+}
+
+/**
+ * Resets the mocks and the HAR file counter
+ *
+ * This method is typically called at the start of a test to ensure a clean state.
+ * The routes themselves are removed along with their contexts.
+ */
+function resetMocks() {
+  mocks.clear();
+  harCount = 0;
+}
+
+/**
+ * Helper module for mocking the network traffic of browser contexts.
+ */
+export const mockHelper = {
+  addMock,
+  removeMock,
+  listMocks,
+  expectMockHits,
+  attachTo,
+  resetMocks,
+} as const;
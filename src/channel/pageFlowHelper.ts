@@ -0,0 +1,161 @@
+/**
+ * @description This module provides a typed declaration of an application's page types and the
+ * navigations allowed between them. It returns versions of the browserHelper functions whose page
+ * type parameters are checked against the declaration, both by the compiler and at runtime.
+ */
+
+import type {
+  BrowserContext,
+  BrowserContextOptions,
+  Page,
+} from "@playwright/test";
+import type {
+  AliasOrIndex,
+  NewContextOptions,
+  NewTabOptions,
+  NextPageTypeOf,
+  PageFlow,
+  PageTypeOf,
+} from "../types/frameworkTypes.js";
+import { browserHelper } from "./browserHelper.js";
+
+/**
+ * Declares the page types of an application and the navigations allowed between them
+ *
+ * Every navigation target must itself be a declared page type.
+ *
+ * @example
+ * // In a shared module:
+ * export const appFlow = definePageFlow({
+ *   Login: ["Dashboard"],
+ *   Dashboard: ["Settings", "Login"],
+ *   Settings: ["Dashboard"],
+ * });
+ *
+ * // In a page object file:
+ * function logIn() {
+ *   appFlow.navigate(async (tab) => { ... }, "Login", "Dashboard");
+ *   return this; // Enable chaining
+ * }
+ *
+ * @param flow - The page types, each mapped to the page types it can navigate to
+ * @returns The browserHelper functions that set or verify page types, typed against the flow
+ */
+function definePageFlow<const F extends PageFlow>(
+  flow: F & { [From in keyof F]: readonly PageTypeOf<F>[] }
+) {
+  /**
+   * @param pageType - The page type to check
+   * @throws Error if the page type is not declared by the flow
+   */
+  function checkPageType(pageType: string) {
+    if (!Object.hasOwn(flow, pageType))
+      throw new Error(`Page type ${pageType} is not declared`);
+  }
+
+  /**
+   * @param currentPageType - The page type navigated from
+   * @param nextPageType - The page type navigated to
+   * @throws Error if either page type is not declared, or the navigation is not allowed by the flow
+   */
+  function checkTransition(currentPageType: string, nextPageType: string) {
+    checkPageType(currentPageType);
+    checkPageType(nextPageType);
+    if (!flow[currentPageType]?.includes(nextPageType))
+      throw new Error(
+        `Navigation from ${currentPageType} to ${nextPageType} is not declared`
+      );
+  }
+
+  return {
+    flow,
+
+    /** @see browserHelper.openNewTabInCurrentContext */
+    openNewTabInCurrentContext(
+      currentPageType: PageTypeOf<F>,
+      options?: NewTabOptions
+    ) {
+      checkPageType(currentPageType);
+      browserHelper.openNewTabInCurrentContext(currentPageType, options);
+    },
+
+    /** @see browserHelper.openNewTabInNewContext */
+    openNewTabInNewContext(
+      openAuthenticatedContextCb?: (
+        options: BrowserContextOptions
+      ) => Promise<BrowserContext>,
+      currentPageType?: PageTypeOf<F>,
+      options?: NewContextOptions
+    ) {
+      if (currentPageType) checkPageType(currentPageType);
+      browserHelper.openNewTabInNewContext(
+        openAuthenticatedContextCb,
+        currentPageType,
+        options
+      );
+    },
+
+    /** @see browserHelper.switchWorkingTab */
+    switchWorkingTab(
+      context: AliasOrIndex,
+      tab: AliasOrIndex,
+      currentPageType: PageTypeOf<F>,
+      nextPageType: PageTypeOf<F>
+    ) {
+      checkPageType(currentPageType);
+      checkPageType(nextPageType);
+      browserHelper.switchWorkingTab(
+        context,
+        tab,
+        currentPageType,
+        nextPageType
+      );
+    },
+
+    /**
+     * Opening a popup counts as a navigation from the current page type to the popup's page type.
+     *
+     * @see browserHelper.switchToPopup
+     */
+    switchToPopup<From extends PageTypeOf<F>>(
+      triggerCb: (tab: Page) => Promise<void>,
+      currentPageType: From,
+      popupPageType: NextPageTypeOf<F, From>,
+      options?: NewTabOptions
+    ) {
+      checkTransition(currentPageType, popupPageType);
+      browserHelper.switchToPopup(
+        triggerCb,
+        currentPageType as string,
+        popupPageType,
+        options
+      );
+    },
+
+    /** @see browserHelper.navigate */
+    navigate<From extends PageTypeOf<F>>(
+      actionCb: (tab: Page) => Promise<void>,
+      currentPageType: From,
+      nextPageType: NextPageTypeOf<F, From>
+    ) {
+      checkTransition(currentPageType, nextPageType);
+      browserHelper.navigate(actionCb, currentPageType as string, nextPageType);
+    },
+
+    /** @see browserHelper.assertPageType */
+    assertPageType(pageType: PageTypeOf<F>) {
+      checkPageType(pageType);
+      browserHelper.assertPageType(pageType);
+    },
+  } as const;
+}
+
+/**
+ * Helper module for declaring the page flow of an application.
+ *
+ * It turns page types from hand-written strings into a checked declaration,
+ * so that typos and undeclared navigations are rejected by the compiler.
+ */
+export const pageFlowHelper = {
+  definePageFlow,
+} as const;
@@ -6,26 +6,88 @@
  * 2. Throw-away contexts - Created for one-time use and cannot be focused again
  *
  * Each context can have its own set of extra headers that will be applied to requests.
+ * Requests sent through the chainable builder (get/post/put/patch/delete) are queued as steps
+ * and have these headers applied automatically. They target the context focused when they run.
+ * Opening, switching and closing contexts, and putting extra headers, take effect immediately,
+ * or can be queued as steps through their "Step" variants, so that a chain of requests targets
+ * the context focused by the steps queued before it.
  */
 
-import { type APIRequestContext, test, expect } from "@playwright/test";
+import {
+  type APIRequestContext,
+  type APIResponse,
+  type BrowserContextOptions,
+  test,
+  expect,
+} from "@playwright/test";
+import type {
+  AliasOrIndex,
+  Lazy,
+  RequestBuilder,
+  RequestMethod,
+  RequestOptions,
+  StoredResponse,
+  TestDataValue,
+} from "../types/frameworkTypes.js";
 import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { aliasDataHelper } from "../data/aliasDataHelper.js";
+import { testDataHelper } from "../data/testDataHelper.js";
+import { tabDataHelper } from "../data/tabDataHelper.js";
+import { stepSequenceHelper } from "../chaining/stepSequenceHelper.js";
+import { errorListener } from "../listeners/errorListener.js";
 
-const requestContexts: APIRequestContext[] = [];
+/**
+ * Persistent request contexts. Closed contexts leave an undefined slot behind,
+ * so that the indices of the remaining contexts stay valid.
+ */
+const requestContexts: (undefined | APIRequestContext)[] = [];
 const throwAwayContexts: APIRequestContext[] = [];
 const requestContextsExtraHeaders: (undefined | Map<string, string>)[] = [];
 const throwAwayContextsExtraHeaders: (undefined | Map<string, string>)[] = [];
 
-let workingRequestContext: APIRequestContext;
+let workingRequestContext: undefined | APIRequestContext;
+
+/**
+ * @returns The focused request context
+ * @throws If no request context has been opened, or the focused one has been closed
+ */
+function currentRequestContext() {
+  if (!workingRequestContext) throw new Error("No working Request Context");
+  return workingRequestContext;
+}
 
 /**
  * @returns The index of the focused request context in the requestContexts array,
  * or -1 if the focused context is a throw-away context
  */
 function workingRequestContextIndex() {
+  if (!workingRequestContext) return -1;
   return requestContexts.indexOf(workingRequestContext);
 }
 
+/**
+ * @param requestContext - The alias or index of a persistent request context
+ * @returns The index of the referenced context, or -1 if no open context matches
+ */
+function requestContextIndex(requestContext: AliasOrIndex) {
+  const context = aliasDataHelper.find(requestContexts, requestContext);
+  return context ? requestContexts.indexOf(context) : -1;
+}
+
+/**
+ * @param requestContext - The alias or index of a persistent request context
+ * @returns The referenced request context
+ * @throws If the specified context does not exist or has been closed
+ */
+function getRequestContext(requestContext: AliasOrIndex) {
+  const context = aliasDataHelper.find(requestContexts, requestContext);
+  if (!context)
+    throw new Error(
+      `Request Context ${aliasDataHelper.label(requestContext)} not found`
+    );
+  return context;
+}
+
 /**
  * Sets the focused Request Context.
  * @param requestContextIndex - The index of the context to set as focused
@@ -52,7 +114,7 @@ function putExtraHeader(key: string, value: string) {
     return;
   }
   const throwAwayContextIndex = throwAwayContexts.indexOf(
-    workingRequestContext
+    currentRequestContext()
   );
   if (throwAwayContextIndex >= 0) {
     throwAwayContextsExtraHeaders[throwAwayContextIndex] ??= new Map<
@@ -63,6 +125,21 @@ function putExtraHeader(key: string, value: string) {
   }
 }
 
+/**
+ * Adds a step that adds or updates a custom header for the request context focused when the step runs.
+ * The header will be available for all subsequent requests made with this context.
+ *
+ * @param key - The header name
+ * @param value - The header value
+ */
+function putExtraHeaderStep(key: string, value: string) {
+  const title = `Putting extra header "${key}"`;
+  stepSequenceHelper.addStep(title, () => {
+    console.log(title);
+    putExtraHeader(key, value);
+  });
+}
+
 /**
  * Retrieves all custom headers associated with the currently focused request context.
  *
@@ -79,7 +156,7 @@ function getExtraHeaders() {
       : Object.fromEntries(extraHeaders);
   }
   const throwAwayContextIndex = throwAwayContexts.indexOf(
-    workingRequestContext
+    currentRequestContext()
   );
   if (throwAwayContextIndex >= 0) {
     const extraHeaders = throwAwayContextsExtraHeaders[throwAwayContextIndex];
@@ -90,25 +167,171 @@ function getExtraHeaders() {
   throw new Error("Could not find workingRequestContext's Extra Headers");
 }
 
+/**
+ * @param alias - Optional alias of the new context
+ * @returns The title of the step opening a new persistent request context
+ */
+function openNewContextTitle(alias?: string) {
+  return alias ? `Opening new Context "${alias}"` : `Opening new Context`;
+}
+
+/**
+ * Creates a new persistent request context and sets it as the focused context.
+ *
+ * @param openNewContextCb A callback that creates and returns a new APIRequestContext.
+ * @param alias - Optional alias under which the context can be referenced later
+ * @throws If the alias is already used by another open context
+ */
+async function createContext(
+  openNewContextCb?: () => Promise<APIRequestContext>,
+  alias?: string
+) {
+  const newContext = openNewContextCb
+    ? await openNewContextCb()
+    : await frameworkDataHelper.apiRequest().newContext();
+  await registerContext(newContext, alias);
+}
+
 /**
  * Creates a new persistent request context and sets it as the focused context.
  * This context can be referenced later using switchWorkingContext.
  *
  * @param openNewContextCb A callback that creates and returns a new APIRequestContext.
+ * @param alias - Optional alias under which the context can be referenced later
+ * @throws If the alias is already used by another open context
  */
 async function openNewContext(
-  openNewContextCb?: () => Promise<APIRequestContext>
+  openNewContextCb?: () => Promise<APIRequestContext>,
+  alias?: string
+) {
+  const title = openNewContextTitle(alias);
+  await test.step(title, async () => {
+    console.log(title);
+    await createContext(openNewContextCb, alias);
+  });
+}
+
+/**
+ * Adds a step that creates a new persistent request context and sets it as the focused context.
+ * This context can be referenced later using switchWorkingContext.
+ *
+ * @param openNewContextCb A callback that creates and returns a new APIRequestContext.
+ * @param alias - Optional alias under which the context can be referenced later
+ * @throws If the alias is already used by another open context
+ */
+function openNewContextStep(
+  openNewContextCb?: () => Promise<APIRequestContext>,
+  alias?: string
 ) {
-  await test.step(`Opening new Context`, async () => {
-    console.log(`Opening new Context`);
-    const newContext = openNewContextCb
-      ? await openNewContextCb()
-      : await frameworkDataHelper.apiRequest().newContext();
-    requestContexts.push(newContext);
-    updateWorkingRequestContext(requestContexts.length - 1);
+  const title = openNewContextTitle(alias);
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    await createContext(openNewContextCb, alias);
   });
 }
 
+/**
+ * Starts tracking a newly created persistent request context and sets it as the focused context
+ *
+ * If the alias is already in use, the new context is disposed, since it would not be tracked and disposed during teardown.
+ *
+ * @param newContext - The newly created request context
+ * @param alias - Optional alias under which the context can be referenced later
+ * @param extraHeaders - Optional extra headers to apply to the requests of the context
+ * @throws If the alias is already used by another open context
+ */
+async function registerContext(
+  newContext: APIRequestContext,
+  alias?: string,
+  extraHeaders?: Record<string, string>
+) {
+  if (alias)
+    try {
+      aliasDataHelper.setAlias(
+        newContext,
+        alias,
+        requestContexts.filter(isOpen)
+      );
+    } catch (error) {
+      await newContext.dispose();
+      throw error;
+    }
+  errorListener.attachToRequestContext(newContext);
+  requestContexts.push(newContext);
+  if (extraHeaders)
+    requestContextsExtraHeaders[requestContexts.length - 1] = new Map(
+      Object.entries(extraHeaders)
+    );
+  updateWorkingRequestContext(requestContexts.length - 1);
+}
+
+/**
+ * Adds a step that creates a new persistent request context sharing the session of the working tab,
+ * and sets it as the focused context.
+ *
+ * The request context is seeded with the storage state (cookies and origins) of the working tab's
+ * browser context, along with the extra HTTP headers the browser context was created with,
+ * e.g. through a preset, overrides or a request context it was seeded from.
+ *
+ * @param alias - Optional alias under which the context can be referenced later
+ * @throws If there is no working tab, or the alias is already used by another open context
+ */
+function openNewContextFromWorkingTab(alias?: string) {
+  const title = alias
+    ? `Opening new Context "${alias}" from working Tab`
+    : "Opening new Context from working Tab";
+  stepSequenceHelper.addStep(title, async () => {
+    console.log(title);
+    const browserContext = tabDataHelper.workingTab().context();
+    const newContext = await frameworkDataHelper
+      .apiRequest()
+      .newContext({ storageState: await browserContext.storageState() });
+    await registerContext(
+      newContext,
+      alias,
+      tabDataHelper.contextExtraHeaders(browserContext)
+    );
+  });
+}
+
+/**
+ * Creates a callback that opens a browser context sharing the session of the focused request context,
+ * e.g. to continue in the UI after logging in through the API.
+ * It can be passed to openNewTabInNewContext, and reads the focused request context when the step runs.
+ *
+ * The browser context is seeded with the storage state (cookies and origins) of the request context,
+ * and sends its extra headers with every request, on top of the options of the context preset, if any.
+ *
+ * @returns A callback that creates a browser context with the focused request context's session
+ */
+function browserContextFromWorkingContext() {
+  return async (options: BrowserContextOptions = {}) => {
+    const extraHeaders = getExtraHeaders();
+    const extraHTTPHeaders = extraHeaders && {
+      ...options.extraHTTPHeaders,
+      ...extraHeaders,
+    };
+    const browserContext = await frameworkDataHelper.browser().newContext({
+      ...options,
+      storageState: await currentRequestContext().storageState(),
+      ...(extraHTTPHeaders && { extraHTTPHeaders }),
+    });
+    if (extraHTTPHeaders)
+      tabDataHelper.setContextExtraHeaders(browserContext, extraHTTPHeaders);
+    return browserContext;
+  };
+}
+
+/**
+ * Creates a new throw-away request context and sets it as the focused context.
+ */
+async function createThrowAwayContext() {
+  const newContext = await frameworkDataHelper.apiRequest().newContext();
+  errorListener.attachToRequestContext(newContext);
+  throwAwayContexts.push(newContext);
+  workingRequestContext = newContext;
+}
+
 /**
  * Creates a new throw-away request context and sets it as the focused context.
  * This context cannot be referenced later (single-use only).
@@ -116,44 +339,328 @@ async function openNewContext(
 async function openNewThrowAwayContext() {
   await test.step(`Opening new Throw Away Context`, async () => {
     console.log(`Opening new Throw Away Context`);
-    let newContext = await frameworkDataHelper.apiRequest().newContext();
-    throwAwayContexts.push(newContext);
-    workingRequestContext = newContext;
+    await createThrowAwayContext();
   });
 }
 
+/**
+ * Adds a step that creates a new throw-away request context and sets it as the focused context.
+ * This context cannot be referenced later (single-use only).
+ */
+function openNewThrowAwayContextStep() {
+  stepSequenceHelper.addStep(`Opening new Throw Away Context`, async () => {
+    console.log(`Opening new Throw Away Context`);
+    await createThrowAwayContext();
+  });
+}
+
+/**
+ * Type guard that filters out the slots of closed persistent contexts
+ */
+function isOpen(
+  requestContext: undefined | APIRequestContext
+): requestContext is APIRequestContext {
+  return requestContext !== undefined;
+}
+
+/**
+ * Focuses one of the previously created persistent contexts.
+ *
+ * @param requestContext - The alias or index of the context to make focused
+ * @param label - The description of the context in the error messages
+ * @throws If the specified context does not exist, has been closed or is already focused
+ */
+function focusContext(requestContext: AliasOrIndex, label: string) {
+  const index = requestContextIndex(requestContext);
+  expect(index, `Context ${label} not found`).toBeGreaterThanOrEqual(0);
+  expect(index, `Already working on context ${label}`).not.toEqual(
+    workingRequestContextIndex()
+  );
+  updateWorkingRequestContext(index);
+}
+
 /**
  * Changes the focused request context to one of the previously created persistent contexts.
  *
- * @param requestContextIndex - The index of the context to make focused
+ * @param requestContext - The alias or index of the context to make focused
  * @returns A step that switches to the specified context
- * @throws If the specified index is out of range or already focused
- */
-function switchWorkingContext(requestContextIndex: number) {
-  return test.step(`Switching working Context to [${requestContextIndex}]`, () => {
-    console.log(`Switching working Context to [${requestContextIndex}]`);
-    expect(
-      requestContextIndex,
-      `Context [${requestContextIndex}] not found`
-    ).toBeLessThan(requestContexts.length);
-    expect(
-      requestContextIndex,
-      `Already working on context [${requestContextIndex}]`
-    ).not.toEqual(workingRequestContextIndex());
-    updateWorkingRequestContext(requestContextIndex);
+ * @throws If the specified context does not exist, has been closed or is already focused
+ */
+function switchWorkingContext(requestContext: AliasOrIndex) {
+  const label = aliasDataHelper.label(requestContext);
+  return test.step(`Switching working Context to ${label}`, () => {
+    console.log(`Switching working Context to ${label}`);
+    focusContext(requestContext, label);
+  });
+}
+
+/**
+ * Adds a step that changes the focused request context to one of the previously created persistent contexts.
+ *
+ * @param requestContext - The alias or index of the context to make focused
+ * @throws If the specified context does not exist, has been closed or is already focused
+ */
+function switchWorkingContextStep(requestContext: AliasOrIndex) {
+  const label = aliasDataHelper.label(requestContext);
+  stepSequenceHelper.addStep(`Switching working Context to ${label}`, () => {
+    console.log(`Switching working Context to ${label}`);
+    focusContext(requestContext, label);
+  });
+}
+
+/**
+ * Disposes of one of the previously created persistent contexts.
+ *
+ * @param requestContext - The alias or index of the context to close
+ * @param label - The description of the context in the error message
+ * @throws If the specified context does not exist or has already been closed
+ */
+async function disposeContext(requestContext: AliasOrIndex, label: string) {
+  const index = requestContextIndex(requestContext);
+  const context = requestContexts[index];
+  if (!context) throw new Error(`Request Context ${label} not found`);
+  await context.dispose();
+  requestContexts[index] = undefined;
+  requestContextsExtraHeaders[index] = undefined;
+  if (workingRequestContext === context) workingRequestContext = undefined;
+}
+
+/**
+ * Disposes of one of the previously created persistent contexts.
+ * The indices and aliases of the remaining contexts are not affected.
+ *
+ * @param requestContext - The alias or index of the context to close
+ * @throws If the specified context does not exist or has already been closed
+ */
+async function closeContext(requestContext: AliasOrIndex) {
+  const label = aliasDataHelper.label(requestContext);
+  await test.step(`Closing Context ${label}`, async () => {
+    console.log(`Closing Context ${label}`);
+    await disposeContext(requestContext, label);
+  });
+}
+
+/**
+ * Adds a step that disposes of one of the previously created persistent contexts.
+ * The indices and aliases of the remaining contexts are not affected.
+ *
+ * @param requestContext - The alias or index of the context to close
+ * @throws If the specified context does not exist or has already been closed
+ */
+function closeContextStep(requestContext: AliasOrIndex) {
+  const label = aliasDataHelper.label(requestContext);
+  stepSequenceHelper.addStep(`Closing Context ${label}`, async () => {
+    console.log(`Closing Context ${label}`);
+    await disposeContext(requestContext, label);
   });
 }
 
+/**
+ * Disposes of all persistent and throw-away request contexts and resets the tracking data.
+ *
+ * All contexts are disposed even if some of them fail to dispose.
+ * The first failure is rethrown once every context has been processed.
+ */
+async function disposeAllContexts() {
+  const contexts = [...requestContexts, ...throwAwayContexts];
+  resetRequestContexts();
+  const results = await Promise.allSettled(
+    contexts.map((context) => context?.dispose())
+  );
+  for (const result of results)
+    if (result.status === "rejected") throw result.reason;
+}
+
+/**
+ * Resets all request context tracking data, including the extra headers
+ * and the focused request context.
+ *
+ * This method is typically called at the start of a test to ensure a clean state.
+ */
+function resetRequestContexts() {
+  requestContexts.length = 0;
+  throwAwayContexts.length = 0;
+  requestContextsExtraHeaders.length = 0;
+  throwAwayContextsExtraHeaders.length = 0;
+  workingRequestContext = undefined;
+}
+
+/**
+ * Resolves a request path against the base URL of the application under test.
+ * Absolute URLs are returned unchanged.
+ *
+ * @param url - The absolute URL or path to resolve
+ * @returns The absolute URL
+ */
+function resolveUrl(url: string) {
+  return new URL(url, frameworkDataHelper.baseUrl()).toString();
+}
+
+/**
+ * Reads the body of a response, parsing it as JSON when possible.
+ *
+ * @param response - The response to read
+ * @returns The parsed JSON body, or the body as text if it is not valid JSON
+ */
+async function readBody(response: APIResponse) {
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Adds a step that sends a request with the request context focused when the step runs.
+ *
+ * The focused context's extra headers are merged with the headers passed in the options,
+ * with the latter taking precedence. If a responseKey is provided, the response's status,
+ * headers and body are stored in the test data under that key. Errors matching the
+ * ignoreErrors rule are not reported by the error listener. The URL and the options can be
+ * provided lazily, e.g. to refer to test data stored by a previous step.
+ *
+ * @param method - The HTTP method of the request
+ * @param url - The absolute URL or a path relative to the base URL, or a function returning it
+ * @param options - Playwright fetch options, along with an optional responseKey, or a function returning them
+ * @returns The request builder, to chain further requests
+ */
+function sendRequest(
+  method: RequestMethod,
+  url: Lazy<string>,
+  options: Lazy<RequestOptions> = {}
+) {
+  stepSequenceHelper.addStep(
+    typeof url === "string"
+      ? `Sending ${method} request to ${url}`
+      : `Sending ${method} request`,
+    async () => {
+      const resolvedUrl = await stepSequenceHelper.resolveLazy(url);
+      console.log(`Sending ${method} request to ${resolvedUrl}`);
+      const { responseKey, ignoreErrors, headers, ...fetchOptions } =
+        await stepSequenceHelper.resolveLazy(options);
+      const requestOptions = {
+        ...fetchOptions,
+        method,
+        headers: { ...getExtraHeaders(), ...headers },
+      };
+      const response = await currentRequestContext().fetch(
+        resolveUrl(resolvedUrl),
+        ignoreErrors
+          ? errorListener.ignoringApiErrors(requestOptions, ignoreErrors)
+          : requestOptions
+      );
+      if (responseKey) {
+        const storedResponse: StoredResponse = {
+          status: response.status(),
+          headers: response.headers(),
+          body: await readBody(response),
+        };
+        testDataHelper.pushTestData(
+          responseKey,
+          storedResponse as TestDataValue<typeof responseKey>
+        );
+      }
+    }
+  );
+  return requestBuilder;
+}
+
+/**
+ * Adds a step that sends a GET request with the focused request context.
+ *
+ * @param url - The absolute URL or a path relative to the base URL, or a function returning it
+ * @param options - Playwright fetch options, along with an optional responseKey, or a function returning them
+ * @returns The request builder, to chain further requests
+ */
+function get(url: Lazy<string>, options?: Lazy<RequestOptions>) {
+  return sendRequest("GET", url, options);
+}
+
+/**
+ * Adds a step that sends a POST request with the focused request context.
+ *
+ * @param url - The absolute URL or a path relative to the base URL, or a function returning it
+ * @param options - Playwright fetch options, along with an optional responseKey, or a function returning them
+ * @returns The request builder, to chain further requests
+ */
+function post(url: Lazy<string>, options?: Lazy<RequestOptions>) {
+  return sendRequest("POST", url, options);
+}
+
+/**
+ * Adds a step that sends a PUT request with the focused request context.
+ *
+ * @param url - The absolute URL or a path relative to the base URL, or a function returning it
+ * @param options - Playwright fetch options, along with an optional responseKey, or a function returning them
+ * @returns The request builder, to chain further requests
+ */
+function put(url: Lazy<string>, options?: Lazy<RequestOptions>) {
+  return sendRequest("PUT", url, options);
+}
+
+/**
+ * Adds a step that sends a PATCH request with the focused request context.
+ *
+ * @param url - The absolute URL or a path relative to the base URL, or a function returning it
+ * @param options - Playwright fetch options, along with an optional responseKey, or a function returning them
+ * @returns The request builder, to chain further requests
+ */
+function patch(url: Lazy<string>, options?: Lazy<RequestOptions>) {
+  return sendRequest("PATCH", url, options);
+}
+
+/**
+ * Adds a step that sends a DELETE request with the focused request context.
+ *
+ * @param url - The absolute URL or a path relative to the base URL, or a function returning it
+ * @param options - Playwright fetch options, along with an optional responseKey, or a function returning them
+ * @returns The request builder, to chain further requests
+ */
+function deleteRequest(url: Lazy<string>, options?: Lazy<RequestOptions>) {
+  return sendRequest("DELETE", url, options);
+}
+
+/**
+ * Chainable request methods, returned by every request method
+ */
+const requestBuilder: RequestBuilder = {
+  get,
+  post,
+  put,
+  patch,
+  delete: deleteRequest,
+};
+
 /**
  * Helper module for managing API Request context operations.
  */
 export const requestHelper = {
+  /**
+   * @returns The focused request context, or undefined if no request context has been opened, or the focused one has been closed
+   */
   workingRequestContext() {
     return workingRequestContext;
   },
+  requestContext: getRequestContext,
   putExtraHeader,
+  putExtraHeaderStep,
   getExtraHeaders,
   openNewContext,
+  openNewContextStep,
+  openNewContextFromWorkingTab,
+  browserContextFromWorkingContext,
   openNewThrowAwayContext,
+  openNewThrowAwayContextStep,
   switchWorkingContext,
+  switchWorkingContextStep,
+  closeContext,
+  closeContextStep,
+  disposeAllContexts,
+  resetRequestContexts,
+  get,
+  post,
+  put,
+  patch,
+  delete: deleteRequest,
 } as const;
@@ -0,0 +1,230 @@
+/**
+ * @description This module provides a registry of user roles, each with its own login routine.
+ * A role logs in once per worker, or once per run, and its storage state is saved under the
+ * test output directory. New browser contexts and API request contexts of the role reuse the
+ * saved session, which is renewed when it expires or fails validation.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { test, type BrowserContextOptions } from "@playwright/test";
+import type { RoleDefinition } from "../types/frameworkTypes.js";
+import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { sharedFileHelper } from "../data/sharedFileHelper.js";
+
+/** Map storing the definition of each registered role */
+const roles = new Map<string, RoleDefinition>();
+
+/** Directory under which the storage states of the roles are saved */
+let authDir: string;
+
+/** Index of the current worker, separating the storage states of worker scoped roles */
+let workerIndex: number;
+
+/** Versions of the storage state files that the current worker has found valid */
+const validatedStates = new Set<string>();
+
+/**
+ * Registers a role, typically in a shared module imported by the tests.
+ * Registering a role again replaces its definition.
+ *
+ * @param role - The name of the role, e.g. "admin"
+ * @param definition - How the role logs in, and how its session is validated and expires
+ */
+function registerRole(role: string, definition: RoleDefinition) {
+  roles.set(role, definition);
+}
+
+/**
+ * Points the storage states of the roles to the output directory when a worker starts.
+ *
+ * @param outputDir - The output directory of the worker's project
+ * @param index - The index of the worker
+ */
+function initRoles(outputDir: string, index: number) {
+  authDir = path.join(outputDir, ".playwrap", "auth");
+  workerIndex = index;
+  validatedStates.clear();
+}
+
+/**
+ * @param role - The name of the role
+ * @returns The definition of the role
+ * @throws Error if the role is not registered
+ */
+function roleDefinition(role: string) {
+  const definition = roles.get(role);
+  if (!definition) throw new Error(`Role "${role}" is not registered`);
+  return definition;
+}
+
+/**
+ * @param role - The name of the role
+ * @param definition - The definition of the role
+ * @returns The file under which the storage state of the role is saved
+ */
+function storageStateFile(role: string, definition: RoleDefinition) {
+  const scopeDir = definition.scope === "run" ? "run" : `worker-${workerIndex}`;
+  return path.join(authDir, scopeDir, `${encodeURIComponent(role)}.json`);
+}
+
+/**
+ * @param file - The storage state file
+ * @returns An identifier of the current content of the file, or undefined if it does not exist
+ */
+function stateVersion(file: string) {
+  const modified = fs.statSync(file, { throwIfNoEntry: false })?.mtimeMs;
+  return modified === undefined ? undefined : `${file}@${modified}`;
+}
+
+/**
+ * @param file - The storage state file
+ * @param definition - The definition of the role
+ * @returns Whether the file is missing, older than the role's maximum age, or contains expired cookies
+ */
+function isExpired(file: string, definition: RoleDefinition) {
+  const stats = fs.statSync(file, { throwIfNoEntry: false });
+  if (!stats) return true;
+  if (
+    definition.maxAge !== undefined &&
+    Date.now() - stats.mtimeMs > definition.maxAge
+  )
+    return true;
+  const state = sharedFileHelper.readJson(file) as {
+    cookies?: { expires: number }[];
+  };
+  return (state.cookies ?? []).some(
+    (cookie) => cookie.expires > 0 && cookie.expires * 1000 <= Date.now()
+  );
+}
+
+/**
+ * Runs the login routine of a role in a new browser context, and saves the resulting storage state.
+ * The context uses the base URL of the test, like the request contexts that validate the session.
+ *
+ * @param role - The name of the role
+ * @param definition - The definition of the role
+ * @param file - The file under which the storage state is saved
+ */
+async function logIn(role: string, definition: RoleDefinition, file: string) {
+  await test.step(`Logging in as ${role}`, async () => {
+    console.log(`Logging in as ${role}`);
+    const context = await frameworkDataHelper
+      .browser()
+      .newContext({ baseURL: frameworkDataHelper.baseUrl() });
+    try {
+      await definition.login(context);
+      sharedFileHelper.writeJsonAtomically(file, await context.storageState());
+    } finally {
+      await context.close();
+    }
+  });
+  const version = stateVersion(file);
+  if (version) validatedStates.add(version);
+}
+
+/**
+ * Retrieves the saved storage state of a role, logging in if it is missing or expired.
+ * The file is locked while logging in, so that workers sharing a run scoped role log in only once.
+ *
+ * @param role - The name of the role
+ * @param definition - The definition of the role
+ * @param invalidVersion - A version of the file that failed validation, and must be replaced
+ * @returns The storage state file
+ */
+async function savedStorageState(
+  role: string,
+  definition: RoleDefinition,
+  invalidVersion?: string
+) {
+  const file = storageStateFile(role, definition);
+  const needsLogIn = () =>
+    isExpired(file, definition) ||
+    (invalidVersion !== undefined && stateVersion(file) === invalidVersion);
+  if (needsLogIn())
+    await sharedFileHelper.withAsyncLock(file, async () => {
+      if (needsLogIn()) await logIn(role, definition, file);
+    });
+  return file;
+}
+
+/**
+ * Retrieves a valid storage state of a role.
+ * Each version of the saved session is validated once per worker, and the role logs in again if validation fails.
+ *
+ * @param role - The name of the role
+ * @returns The storage state file
+ * @throws Error if the role is not registered
+ */
+async function validStorageState(role: string) {
+  const definition = roleDefinition(role);
+  const file = await savedStorageState(role, definition);
+  const version = stateVersion(file);
+  if (!definition.validate || !version || validatedStates.has(version))
+    return file;
+  const request = await frameworkDataHelper
+    .apiRequest()
+    .newContext({ baseURL: frameworkDataHelper.baseUrl(), storageState: file });
+  let valid: boolean;
+  try {
+    valid = await definition.validate(request);
+  } finally {
+    await request.dispose();
+  }
+  if (valid) validatedStates.add(version);
+  else {
+    console.log(`Session of ${role} is no longer valid`);
+    await savedStorageState(role, definition, version);
+  }
+  return file;
+}
+
+/**
+ * Creates a callback that opens a browser context logged in as a role.
+ * It can be passed to openNewTabInNewContext, which provides the options of the context preset, if any.
+ *
+ * @param role - The name of the role
+ * @returns A callback that creates a browser context with the role's session
+ */
+function browserContextAs(role: string) {
+  return async (options: BrowserContextOptions = {}) =>
+    frameworkDataHelper.browser().newContext({
+      ...options,
+      storageState: await validStorageState(role),
+    });
+}
+
+/**
+ * Creates a callback that opens an API request context logged in as a role.
+ * It can be passed to requestHelper's openNewContext.
+ *
+ * @param role - The name of the role
+ * @returns A callback that creates an API request context with the role's session
+ */
+function requestContextAs(role: string) {
+  return async () =>
+    frameworkDataHelper
+      .apiRequest()
+      .newContext({ storageState: await validStorageState(role) });
+}
+
+/**
+ * Helper module for logging in as registered roles.
+ *
+ * @example
+ * registerRole("admin", {
+ *   login: async (context) => {
+ *     const page = await context.newPage();
+ *     // Log in through the page
+ *   },
+ *   scope: "run",
+ * });
+ *
+ * openNewTabInNewContext(browserContextAs("admin"), "Blank");
+ */
+export const roleHelper = {
+  registerRole,
+  initRoles,
+  browserContextAs,
+  requestContextAs,
+} as const;
@@ -0,0 +1,105 @@
+/**
+ * @description This module provides a mechanism for naming browser contexts, tabs and
+ * API request contexts with string aliases. Aliases are tracked by object identity,
+ * so they remain valid when other contexts or tabs are closed and indices shift.
+ */
+
+import type { AliasOrIndex } from "../types/frameworkTypes.js";
+
+/** Map storing the alias of each named browser context, tab or request context */
+const aliases = new Map<object, string>();
+
+/**
+ * @param target - The browser context, tab or request context
+ * @returns The alias of the target, or undefined if it has not been named
+ */
+function alias(target: object) {
+  return aliases.get(target);
+}
+
+/**
+ * Names a browser context, tab or request context
+ *
+ * @param target - The object to name
+ * @param newAlias - The alias to assign
+ * @param siblings - The objects among which the alias must be unique
+ * @throws Error if one of the siblings already uses the alias
+ */
+function setAlias(
+  target: object,
+  newAlias: string,
+  siblings: readonly object[]
+) {
+  if (
+    siblings.some(
+      (sibling) => sibling !== target && alias(sibling) === newAlias
+    )
+  )
+    throw new Error(`Alias "${newAlias}" is already in use`);
+  aliases.set(target, newAlias);
+}
+
+/**
+ * Finds the object referenced by an alias or an index
+ *
+ * @param candidates - The objects to search, in index order
+ * @param reference - The alias or index of the object
+ * @returns The referenced object, or undefined if none matches
+ */
+function find<T extends object>(
+  candidates: readonly (undefined | T)[],
+  reference: AliasOrIndex
+) {
+  return typeof reference === "number"
+    ? candidates[reference]
+    : candidates.find(
+        (candidate) => candidate !== undefined && alias(candidate) === reference
+      );
+}
+
+/**
+ * Formats a reference for step titles and error messages
+ *
+ * @param reference - The alias or index to format
+ * @returns The alias in quotes, or the index in brackets
+ */
+function label(reference: AliasOrIndex) {
+  return typeof reference === "string" ? `"${reference}"` : `[${reference}]`;
+}
+
+/**
+ * Formats a tab reference for step titles and error messages
+ *
+ * @param context - The alias or index of the context containing the tab
+ * @param tab - The alias or index of the tab within its context
+ * @returns The references in brackets, with aliases in quotes
+ */
+function tabLabel(context: AliasOrIndex, tab: AliasOrIndex) {
+  const format = (reference: AliasOrIndex) =>
+    typeof reference === "string" ? `"${reference}"` : reference;
+  return `[${format(context)},${format(tab)}]`;
+}
+
+/**
+ * Removes all aliases
+ *
+ * This method is typically called at the start of a test to ensure a clean state.
+ */
+function resetAliases() {
+  aliases.clear();
+}
+
+/**
+ * Helper module for naming browser contexts, tabs and request contexts.
+ *
+ * It allows tests to refer to contexts and tabs by meaningful names, such as "buyer" or
+ * "admin-api", instead of positional indices that change whenever a context is closed.
+ */
+export const aliasDataHelper = {
+  alias,
+  setAlias,
+  find,
+  label,
+  tabLabel,
+  resetAliases,
+} as const;
@@ -0,0 +1,61 @@
+/**
+ * @description This module provides a registry of named browser context presets, such as a device
+ * with its locale, timezone, permissions and color scheme. New contexts are created from a preset,
+ * optionally with some of its options overridden.
+ */
+
+import type { BrowserContextOptions } from "@playwright/test";
+
+/** Map storing the options of each registered preset */
+const presets = new Map<string, BrowserContextOptions>();
+
+/**
+ * Registers a context preset, typically in a shared module imported by the tests.
+ * Registering a preset again replaces its options.
+ *
+ * @param preset - The name of the preset, e.g. "mobile-de"
+ * @param options - The options of the contexts created from the preset, e.g. { ...devices["Pixel 7"], locale: "de-DE" }
+ */
+function registerContextPreset(preset: string, options: BrowserContextOptions) {
+  presets.set(preset, options);
+}
+
+/**
+ * Resolves the options of a new context
+ *
+ * Overrides replace the options of the preset one by one, e.g. an overridden geolocation replaces the whole geolocation of the preset.
+ *
+ * @param preset - The name of the preset, if any
+ * @param overrides - Options applied on top of the preset
+ * @returns The options of the new context
+ * @throws Error if the preset is not registered
+ */
+function contextOptions(
+  preset: undefined | string,
+  overrides: BrowserContextOptions = {}
+): BrowserContextOptions {
+  if (preset === undefined) return overrides;
+  const options = presets.get(preset);
+  if (!options) throw new Error(`Context preset "${preset}" is not registered`);
+  return { ...options, ...overrides };
+}
+
+/**
+ * Helper module for creating browser contexts from named presets.
+ *
+ * @example
+ * registerContextPreset("mobile-de", {
+ *   ...devices["Pixel 7"],
+ *   locale: "de-DE",
+ *   timezoneId: "Europe/Berlin",
+ *   permissions: ["geolocation"],
+ *   geolocation: { latitude: 52.52, longitude: 13.4 },
+ *   colorScheme: "dark",
+ * });
+ *
+ * openNewTabInNewContext(undefined, "Blank", { preset: "mobile-de" });
+ */
+export const contextPresetHelper = {
+  registerContextPreset,
+  contextOptions,
+} as const;
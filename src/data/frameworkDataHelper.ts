@@ -4,7 +4,12 @@
  */
 
 import type { APIRequest, Browser } from "@playwright/test";
-import type { ErrorListenerOptions } from "../types/frameworkTypes.js";
+import type {
+  ErrorListenerOptions,
+  HarMode,
+  StepBudget,
+  WorkingTabClosePolicy,
+} from "../types/frameworkTypes.js";
 
 /** Playwright's API request context for making API calls */
 let apiRequest: APIRequest;
@@ -18,6 +23,24 @@ let browser: Browser;
 /** Configuration options for error listener behavior */
 let errorListenerOptions: ErrorListenerOptions;
 
+/** What happens when the working tab is closed by the application */
+let workingTabClosePolicy: WorkingTabClosePolicy;
+
+/** Whether diagnostics of the working tab are attached to failed steps */
+let captureFailureArtifacts: boolean;
+
+/** Pattern matching stack trace rows that point to spec files, if the running test file should not be used */
+let specFilePattern: undefined | RegExp;
+
+/** Whether the network traffic of the contexts opened through playwrap is recorded or replayed */
+let harMode: HarMode;
+
+/** Directory the HAR files are stored under, relative to the project's test directory. Defaults to "__hars__" */
+let harDir: undefined | string;
+
+/** Maximum durations of the steps, checked against the step timeline of every test */
+let stepBudgets: StepBudget[];
+
 /**
  * @param contextIndex The index of the browser context
  * @returns The browser context at the specified index
@@ -37,17 +60,35 @@ function getContext(contextIndex: number) {
  * @param frameworkData.baseUrl - Base URL of the application under test
  * @param frameworkData.browser - Playwright's Browser instance
  * @param frameworkData.errorListenerOptions - Error listener configuration
+ * @param frameworkData.workingTabClosePolicy - What happens when the working tab is closed by the application
+ * @param frameworkData.captureFailureArtifacts - Whether diagnostics of the working tab are attached to failed steps
+ * @param frameworkData.specFilePattern - Pattern matching stack trace rows that point to spec files
+ * @param frameworkData.harMode - Whether the network traffic of the contexts is recorded or replayed
+ * @param frameworkData.harDir - Directory the HAR files are stored under
+ * @param frameworkData.stepBudgets - Maximum durations of the steps
  */
 function init(frameworkData: {
   apiRequest: APIRequest;
   baseUrl: string;
   browser: Browser;
   errorListenerOptions: ErrorListenerOptions;
+  workingTabClosePolicy: WorkingTabClosePolicy;
+  captureFailureArtifacts: boolean;
+  specFilePattern: undefined | RegExp;
+  harMode: HarMode;
+  harDir: undefined | string;
+  stepBudgets: StepBudget[];
 }) {
   apiRequest = frameworkData.apiRequest;
   baseUrl = frameworkData.baseUrl;
   browser = frameworkData.browser;
   errorListenerOptions = frameworkData.errorListenerOptions;
+  workingTabClosePolicy = frameworkData.workingTabClosePolicy;
+  captureFailureArtifacts = frameworkData.captureFailureArtifacts;
+  specFilePattern = frameworkData.specFilePattern;
+  harMode = frameworkData.harMode;
+  harDir = frameworkData.harDir;
+  stepBudgets = frameworkData.stepBudgets;
 }
 
 /**
@@ -86,6 +127,24 @@ export const frameworkDataHelper = {
   errorListenerOptions() {
     return errorListenerOptions;
   },
+  workingTabClosePolicy() {
+    return workingTabClosePolicy;
+  },
+  captureFailureArtifacts() {
+    return captureFailureArtifacts;
+  },
+  specFilePattern() {
+    return specFilePattern;
+  },
+  harMode() {
+    return harMode;
+  },
+  harDir() {
+    return harDir;
+  },
+  stepBudgets() {
+    return stepBudgets;
+  },
   init,
   getContext,
   getPage,
@@ -0,0 +1,51 @@
+/**
+ * @description This module provides URL glob matching, shared by the error ignore rules
+ * and the page type detectors.
+ */
+
+/**
+ * Converts a URL glob to a regular expression
+ *
+ * `*` matches any characters except `/`, `**` matches any characters,
+ * and `{a,b}` matches either of the alternatives.
+ *
+ * @param glob - The glob to convert
+ * @returns A regular expression matching the whole URL
+ */
+function toRegExp(glob: string) {
+  let pattern = "";
+  let inAlternatives = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob.charAt(i);
+    if (char === "*" && glob.charAt(i + 1) === "*") {
+      pattern += ".*";
+      i++;
+    } else if (char === "*") pattern += "[^/]*";
+    else if (char === "{") {
+      pattern += "(";
+      inAlternatives = true;
+    } else if (char === "}") {
+      pattern += ")";
+      inAlternatives = false;
+    } else if (char === "," && inAlternatives) pattern += "|";
+    else pattern += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * @param url - The URL to check
+ * @param pattern - A URL glob, or a regular expression
+ * @returns Whether the URL matches the pattern
+ */
+function matches(url: string, pattern: string | RegExp) {
+  return (typeof pattern === "string" ? toRegExp(pattern) : pattern).test(url);
+}
+
+/**
+ * Helper module for matching URLs against globs or regular expressions.
+ */
+export const globHelper = {
+  toRegExp,
+  matches,
+} as const;
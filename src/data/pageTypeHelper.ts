@@ -0,0 +1,160 @@
+/**
+ * @description This module provides a registry of page types, each declaring a detector that
+ * recognizes the page type in a tab by its URL, title or a visible element. It verifies that
+ * tabs actually show the page types that tests declare, and infers the page type of tabs
+ * that were not given one.
+ */
+
+import { expect, type Page } from "@playwright/test";
+import type { PageTypeDetector } from "../types/frameworkTypes.js";
+import { globHelper } from "./globHelper.js";
+import { tabDataHelper } from "./tabDataHelper.js";
+
+/** The page type of tabs that have not been given one */
+const unknownPageType = "Blank";
+
+/** Map storing the detector of each registered page type, in registration order */
+const detectors = new Map<string, PageTypeDetector>();
+
+/**
+ * Registers a page type, typically in the module of its page object.
+ * Registering a page type again replaces its detector.
+ *
+ * @param pageType - The page type to register
+ * @param detector - How to recognize the page type in a tab
+ */
+function registerPageType(pageType: string, detector: PageTypeDetector) {
+  detectors.set(pageType, detector);
+}
+
+/**
+ * @param pageType - The page type to look up
+ * @returns Whether the page type has a registered detector
+ */
+function isRegistered(pageType: string) {
+  return detectors.has(pageType);
+}
+
+/**
+ * @param pattern - The expected text, or a regular expression
+ * @returns The pattern formatted for error messages
+ */
+function describe(pattern: string | RegExp) {
+  return typeof pattern === "string" ? `"${pattern}"` : String(pattern);
+}
+
+/**
+ * Compares a tab against a detector
+ *
+ * @param tab - The tab to check
+ * @param detector - The detector of the expected page type
+ * @returns A description of every criterion of the detector that the tab does not match
+ */
+async function mismatches(tab: Page, detector: PageTypeDetector) {
+  const differences: string[] = [];
+  if (
+    detector.url !== undefined &&
+    !globHelper.matches(tab.url(), detector.url)
+  )
+    differences.push(
+      `URL: expected ${describe(detector.url)}, received "${tab.url()}"`
+    );
+  if (detector.title !== undefined) {
+    const title = await tab.title();
+    const matches =
+      typeof detector.title === "string"
+        ? title === detector.title
+        : detector.title.test(title);
+    if (!matches)
+      differences.push(
+        `Title: expected ${describe(detector.title)}, received "${title}"`
+      );
+  }
+  if (detector.locator !== undefined) {
+    const locator =
+      typeof detector.locator === "string"
+        ? tab.locator(detector.locator)
+        : detector.locator(tab);
+    if (!(await locator.first().isVisible()))
+      differences.push(`Locator: expected ${locator.toString()} to be visible`);
+  }
+  return differences;
+}
+
+/**
+ * Infers the page type shown in a tab from the registered detectors
+ *
+ * @param tab - The tab to check
+ * @returns The first registered page type whose detector matches the tab, or undefined if none matches
+ */
+async function infer(tab: Page) {
+  for (const [pageType, detector] of detectors) {
+    try {
+      if (!(await mismatches(tab, detector)).length) return pageType;
+    } catch {
+      // The tab is closed or navigating
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Retrieves the page type of a tab, inferring it if the tab has not been given one
+ *
+ * @param tab - The tab to look up
+ * @returns The page type of the tab
+ */
+async function resolvePageType(tab: Page) {
+  const pageType = tabDataHelper.pageType(tab);
+  if (pageType !== unknownPageType) return pageType;
+  const inferredPageType = await infer(tab);
+  if (!inferredPageType) return pageType;
+  tabDataHelper.updatePageType(tab, inferredPageType);
+  return inferredPageType;
+}
+
+/**
+ * Verifies that a tab shows a page type, waiting for it to load.
+ * Page types without a detector are compared against the page type the tab was given.
+ * The error message names the preset of the tab's context, if any.
+ *
+ * @param tab - The tab to check
+ * @param pageType - The expected page type
+ * @param label - The description of the tab in the error message
+ * @throws If the tab does not match the detector, listing every mismatching criterion
+ */
+async function verify(tab: Page, pageType: string, label: string) {
+  const preset = tabDataHelper.contextPreset(tab.context());
+  const description = preset ? `${label} (preset "${preset}")` : label;
+  const detector = detectors.get(pageType);
+  if (!detector) {
+    expect(await resolvePageType(tab), `Page type of ${description}`).toBe(
+      pageType
+    );
+    return;
+  }
+  let differences: string[] = [];
+  try {
+    await expect
+      .poll(async () => (differences = await mismatches(tab, detector)))
+      .toEqual([]);
+  } catch {
+    const detectedPageType = (await infer(tab)) ?? "unknown";
+    expect(
+      differences,
+      `${description} is not a ${pageType} Page. Detected page type: ${detectedPageType}`
+    ).toEqual([]);
+  }
+}
+
+/**
+ * Helper module for recognizing the page types shown in tabs.
+ *
+ * Page types without a registered detector are only tracked by name, as declared by the tests.
+ */
+export const pageTypeHelper = {
+  registerPageType,
+  isRegistered,
+  resolvePageType,
+  verify,
+} as const;
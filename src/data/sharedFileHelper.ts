@@ -0,0 +1,224 @@
+/**
+ * @description This module provides process-safe access to JSON files shared
+ * between parallel Playwright workers. Writers take an exclusive lock and replace files
+ * atomically, so readers never observe a partially written file.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+
+/** How long to wait between attempts to acquire a lock, in milliseconds */
+const lockRetryInterval = 10;
+
+/**
+ * Locks without an owner older than this, in milliseconds, are considered abandoned
+ * by a worker that crashed between creating the lock and recording itself as its owner
+ */
+const ownerlessLockAge = 2_000;
+
+/**
+ * Maximum time to wait for a lock synchronously, in milliseconds.
+ * Waiting blocks the worker's event loop, so it is kept below Playwright's timeouts,
+ * while leaving enough time for the workers queued before it under contention.
+ */
+const syncLockTimeout = 5_000;
+
+/** Name of the file in a lock directory that holds the process id of its owner */
+const lockOwnerFile = "owner";
+
+/** Counter making temporary file names unique within the process */
+let temporaryFileCounter = 0;
+
+/**
+ * Blocks the current thread for the specified duration
+ *
+ * @param milliseconds - How long to block
+ */
+function sleep(milliseconds: number) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, milliseconds);
+}
+
+/**
+ * @param pid - The process id to check
+ * @returns Whether the process is running
+ */
+function isRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * @param lock - The lock directory
+ * @returns The process id of the lock's owner as written, or undefined if it is not recorded yet
+ */
+function readLockOwner(lock: string) {
+  try {
+    return fs.readFileSync(path.join(lock, lockOwnerFile), "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a lock was abandoned, because its owner is no longer running,
+ * or because no owner was recorded long after it was created.
+ *
+ * @param lock - The lock directory
+ * @param owner - The process id of the lock's owner as written, if recorded
+ * @returns Whether the lock is abandoned
+ */
+function isAbandoned(lock: string, owner: undefined | string) {
+  if (owner) return !isRunning(Number(owner));
+  const createdAt = fs.statSync(lock, { throwIfNoEntry: false })?.mtimeMs;
+  return createdAt !== undefined && Date.now() - createdAt > ownerlessLockAge;
+}
+
+/**
+ * Removes an abandoned lock.
+ * The lock is renamed before it is deleted, so that workers removing it at the same time do not
+ * delete a lock that another worker acquired in the meantime. If the renamed lock turns out to be
+ * such a lock, it is put back.
+ *
+ * @param lock - The lock directory
+ * @param owner - The process id of the abandoned lock's owner as written, if recorded
+ */
+function removeAbandonedLock(lock: string, owner: undefined | string) {
+  const removedLock = `${lock}.${process.pid}.${temporaryFileCounter++}.stale`;
+  try {
+    fs.renameSync(lock, removedLock);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw error;
+  }
+  const removedOwner = readLockOwner(removedLock);
+  if (removedOwner !== owner && !isAbandoned(removedLock, removedOwner)) {
+    try {
+      fs.renameSync(removedLock, lock);
+      return;
+    } catch {
+      // Another worker acquired the lock again, so the renamed one can no longer be restored
+    }
+  }
+  fs.rmSync(removedLock, { recursive: true, force: true });
+}
+
+/**
+ * Attempts to acquire a lock once.
+ * The lock is a directory next to the file, since creating a directory is atomic,
+ * and records the process id of its owner. An abandoned lock is removed,
+ * so that the next attempt can acquire it.
+ *
+ * @param lock - The lock directory
+ * @returns Whether the lock was acquired
+ */
+function tryLock(lock: string) {
+  try {
+    fs.mkdirSync(lock);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    const owner = readLockOwner(lock);
+    if (isAbandoned(lock, owner)) removeAbandonedLock(lock, owner);
+    return false;
+  }
+  fs.writeFileSync(path.join(lock, lockOwnerFile), String(process.pid));
+  return true;
+}
+
+/**
+ * Releases a lock, unless it was removed as abandoned and acquired by another worker in the meantime
+ *
+ * @param lock - The lock directory
+ */
+function unlock(lock: string) {
+  if (readLockOwner(lock) === String(process.pid))
+    fs.rmSync(lock, { recursive: true, force: true });
+}
+
+/**
+ * Runs a callback while holding an exclusive lock on a file.
+ *
+ * Locks are only held while a small file is read and written, so they are normally acquired within a few attempts.
+ * Since waiting blocks the thread, it gives up after a few seconds instead of waiting for a lock held for longer.
+ * Locks abandoned by crashed workers are detected right away. Use withAsyncLock for long callbacks.
+ *
+ * @param file - The file to lock
+ * @param callback - The function to run while holding the lock
+ * @returns The value returned by the callback
+ * @throws Error if the lock could not be acquired within a few seconds
+ */
+function withLock<T>(file: string, callback: () => T) {
+  const lock = `${file}.lock`;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const deadline = Date.now() + syncLockTimeout;
+  while (!tryLock(lock)) {
+    if (Date.now() >= deadline)
+      throw new Error(
+        `Could not lock ${file} within ${syncLockTimeout}ms. It is locked by another worker`
+      );
+    sleep(lockRetryInterval);
+  }
+  try {
+    return callback();
+  } finally {
+    unlock(lock);
+  }
+}
+
+/**
+ * Runs an asynchronous callback while holding an exclusive lock on a file.
+ * Waiting for the lock does not block the thread, and the lock is held for as long as the callback runs,
+ * since it is only considered abandoned once its owner stops running.
+ *
+ * @param file - The file to lock
+ * @param callback - The function to run while holding the lock
+ * @returns The value resolved by the callback
+ */
+async function withAsyncLock<T>(file: string, callback: () => Promise<T>) {
+  const lock = `${file}.lock`;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  while (!tryLock(lock))
+    await new Promise((resolve) => setTimeout(resolve, lockRetryInterval));
+  try {
+    return await callback();
+  } finally {
+    unlock(lock);
+  }
+}
+
+/**
+ * Reads and parses a JSON file
+ *
+ * @param file - The file to read
+ * @returns The parsed content, or undefined if the file does not exist
+ */
+function readJson(file: string) {
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as unknown;
+}
+
+/**
+ * Writes a JSON file atomically, by writing a temporary file and renaming it
+ *
+ * @param file - The file to write
+ * @param content - The content to serialize
+ */
+function writeJsonAtomically(file: string, content: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporaryFile = `${file}.${process.pid}.${temporaryFileCounter++}.tmp`;
+  fs.writeFileSync(temporaryFile, JSON.stringify(content, null, 2));
+  fs.renameSync(temporaryFile, file);
+}
+
+/**
+ * Helper module for sharing JSON files between parallel workers.
+ */
+export const sharedFileHelper = {
+  withLock,
+  withAsyncLock,
+  readJson,
+  writeJsonAtomically,
+} as const;
@@ -1,85 +1,211 @@
 /**
  * @description This module provides a mechanism for tracking page types across browser tabs
- * in Playwright tests. It maintains a data structure that records which page type is
- * loaded in each browser tab across multiple browser contexts, facilitating validation during
- * tab switching operations.
+ * in Playwright tests. It records which page type is loaded in each browser tab, keyed by the
+ * tab itself rather than by its position, and keeps the records in sync with Playwright's
+ * close events. It also keeps track of the working tab, facilitating validation during
+ * tab switching operations, and of the preset and extra HTTP headers each browser context was created with.
  */
 
-/** Multi-dimensional array storing page types for all tabs in all contexts */
-const pageTypes: string[][] = [];
+import type { BrowserContext, Page } from "@playwright/test";
+import type { TabEvent } from "../types/frameworkTypes.js";
+import { frameworkDataHelper } from "./frameworkDataHelper.js";
+import { tabTimelineHelper } from "./tabTimelineHelper.js";
+
+/** Map storing the page type of every open tab */
+const pageTypes = new Map<Page, string>();
+
+/** Map storing the name of the preset each browser context was created from */
+const contextPresets = new Map<BrowserContext, string>();
+
+/** Map storing the extra HTTP headers each browser context was created with */
+const contextsExtraHeaders = new Map<BrowserContext, Record<string, string>>();
+
+/** The currently focused browser tab */
+let workingTab: undefined | Page;
+
+/** Description of the working tab, if it was closed while it was focused */
+let closedWorkingTab: undefined | string;
 
-function contextPageTypes(contextIndex: number) {
-  const contextPageTypes = pageTypes[contextIndex];
-  if (!contextPageTypes)
-    throw new Error(`No page types found for context index ${contextIndex}`);
-  return contextPageTypes;
-}
 /**
  * Retrieves the page type of a specific tab
  *
- * @param contextIndex - The index of the browser context
- * @param tabIndex - The index of the tab within the context
- * @returns The page type loaded in the specified tab
+ * @param tab - The tab to look up
+ * @returns The page type loaded in the specified tab, or undefined if the tab is not tracked
+ */
+function pageType(tab: Page) {
+  return pageTypes.get(tab);
+}
+
+/**
+ * @param context - The browser context to look up
+ * @returns The name of the preset the context was created from, or undefined if it was not created from a preset
+ */
+function contextPreset(context: BrowserContext) {
+  return contextPresets.get(context);
+}
+
+/**
+ * Records the preset a browser context was created from
+ *
+ * @param context - The browser context
+ * @param preset - The name of the preset
+ */
+function setContextPreset(context: BrowserContext, preset: string) {
+  contextPresets.set(context, preset);
+}
+
+/**
+ * @param context - The browser context to look up
+ * @returns The extra HTTP headers the context was created with, or undefined if it was created without any
+ */
+function contextExtraHeaders(context: BrowserContext) {
+  return contextsExtraHeaders.get(context);
+}
+
+/**
+ * Records the extra HTTP headers a browser context was created with
+ *
+ * @param context - The browser context
+ * @param extraHeaders - The extra HTTP headers sent with every request of the context
+ */
+function setContextExtraHeaders(
+  context: BrowserContext,
+  extraHeaders: Record<string, string>
+) {
+  contextsExtraHeaders.set(context, extraHeaders);
+}
+
+/**
+ * @param tab - The tab to look up
+ * @returns Whether the tab is open and tracked
+ */
+function isTracked(tab: Page) {
+  return pageTypes.has(tab);
+}
+
+/**
+ * @returns All open tracked tabs, in the order they were opened
+ */
+function trackedTabs() {
+  return [...pageTypes.keys()];
+}
+
+/**
+ * Records an event of a tab in the tab timeline, along with the preset of its context
+ *
+ * @param event - What happened to the tab
+ * @param tab - The tab
+ * @param pageType - The page type of the tab when the event happened
  */
-function pageType(contextIndex: number, tabIndex: number) {
-  return contextPageTypes(contextIndex)[tabIndex];
+function recordEvent(event: TabEvent["event"], tab: Page, pageType: string) {
+  tabTimelineHelper.record(event, tab, pageType, contextPreset(tab.context()));
 }
 
 /**
- * Initializes the array of page types for a new browser context
+ * Starts tracking a browser context
  *
- * This method is called when a new browser context is created to prepare
- * for tracking page types within that context.
+ * When the context closes, the page types of all its tabs are removed.
+ *
+ * @param context - The browser context to track
  */
-function initializeContextPageTypes() {
-  pageTypes.push(new Array<string>());
+function trackContext(context: BrowserContext) {
+  context.on("close", () => {
+    for (const tab of trackedTabs())
+      if (tab.context() === context) untrackTab(tab);
+  });
 }
 
 /**
- * Sets the initial default page type for a newly created tab
+ * Starts tracking a newly created tab with the initial default page type
+ *
+ * When the tab closes, whether by the test or by the application itself,
+ * its page type is removed.
  *
- * @param contextIndex - The index of the browser context
- * @param tabIndex - The index of the tab within the context
+ * @param tab - The tab to track
  */
-function initializePageType(contextIndex: number, tabIndex: number) {
-  contextPageTypes(contextIndex)[tabIndex] = "Blank";
+function trackTab(tab: Page) {
+  if (isTracked(tab)) return;
+  pageTypes.set(tab, "Blank");
+  recordEvent("opened", tab, "Blank");
+  tab.on("close", () => untrackTab(tab));
 }
 
 /**
- * Removes page type tracking for an entire browser context
+ * Stops tracking a closed tab
  *
- * This method is called when a browser context is closed to clean up
- * the tracking data for that context.
+ * If the tab was the working tab, the working tab either falls back to the most recently
+ * opened tab (preferring its own context), or is cleared so that the next access fails,
+ * depending on the configured policy.
  *
- * @param contextIndex - The index of the browser context to remove
+ * @param tab - The closed tab
  */
-function removeContextPageTypes(contextIndex: number) {
-  pageTypes.splice(contextIndex, 1);
+function untrackTab(tab: Page) {
+  const closedPageType = pageTypes.get(tab);
+  if (!pageTypes.delete(tab)) return;
+  recordEvent("closed", tab, closedPageType ?? "Blank");
+  if (tab !== workingTab) return;
+  workingTab = undefined;
+  if (frameworkDataHelper.workingTabClosePolicy() === "fallback") {
+    const remainingTabs = trackedTabs();
+    workingTab =
+      remainingTabs
+        .filter((other) => other.context() === tab.context())
+        .at(-1) ?? remainingTabs.at(-1);
+  }
+  if (workingTab) {
+    recordEvent("focused", workingTab, pageType(workingTab) ?? "Blank");
+    console.log(`Working Tab closed. Falling back to ${pageType(workingTab)}`);
+  } else closedWorkingTab = `Working Tab (${closedPageType}) was closed`;
 }
 
 /**
  * Updates the page type of a specific tab
  *
- * @param contextIndex - The index of the browser context
- * @param tabIndex - The index of the tab within the context
+ * @param tab - The tab to update
  * @param pageType - The new page type to set for the tab
+ * @throws Error if the tab is not tracked
  */
-function updatePageType(
-  contextIndex: number,
-  tabIndex: number,
-  pageType: string
-) {
-  contextPageTypes(contextIndex)[tabIndex] = pageType;
+function updatePageType(tab: Page, pageType: string) {
+  if (!isTracked(tab)) throw new Error("Tab is closed or not tracked");
+  if (pageTypes.get(tab) === pageType) return;
+  pageTypes.set(tab, pageType);
+  recordEvent("pageTypeChanged", tab, pageType);
+}
+
+/**
+ * @returns The currently focused browser tab
+ * @throws Error if no tab has been opened, or the working tab was closed
+ */
+function getWorkingTab() {
+  if (!workingTab) throw new Error(closedWorkingTab ?? "No working Tab");
+  return workingTab;
+}
+
+/**
+ * Sets the currently focused browser tab
+ *
+ * @param tab - The tab to focus
+ * @throws Error if the tab is not tracked
+ */
+function setWorkingTab(tab: Page) {
+  if (!isTracked(tab)) throw new Error("Tab is closed or not tracked");
+  if (tab !== workingTab) recordEvent("focused", tab, pageType(tab) ?? "Blank");
+  workingTab = tab;
+  closedWorkingTab = undefined;
 }
 
 /**
  * Resets all page type tracking data
  *
- * This method clears all page type tracking information across all contexts and tabs.
- * It's typically called at the start of a test to ensure a clean state.
+ * This method clears all page type tracking information across all contexts and tabs,
+ * along with the working tab and the presets and extra headers of the contexts. It's typically called at the start of a test to ensure a clean state.
  */
 function resetPageTypes() {
-  pageTypes.length = 0;
+  pageTypes.clear();
+  contextPresets.clear();
+  contextsExtraHeaders.clear();
+  workingTab = undefined;
+  closedWorkingTab = undefined;
 }
 
 /**
@@ -93,9 +219,16 @@ function resetPageTypes() {
  */
 export const tabDataHelper = {
   pageType,
-  initializeContextPageTypes,
-  initializePageType,
-  removeContextPageTypes,
+  contextPreset,
+  setContextPreset,
+  contextExtraHeaders,
+  setContextExtraHeaders,
+  isTracked,
+  trackedTabs,
+  trackContext,
+  trackTab,
   updatePageType,
+  workingTab: getWorkingTab,
+  setWorkingTab,
   resetPageTypes,
 } as const;
@@ -0,0 +1,101 @@
+/**
+ * @description This module records a per-test timeline of the tabs tracked by playwrap: when each
+ * tab opens and closes, when it becomes the working tab, and when its page type changes.
+ * It attaches the timeline to the report, so that the working tab can be followed through the test.
+ */
+
+import { test, type BrowserContext, type Page } from "@playwright/test";
+import type { TabEvent } from "../types/frameworkTypes.js";
+import { aliasDataHelper } from "./aliasDataHelper.js";
+
+/** An event of the timeline, referring to the tab itself until the timeline is attached */
+interface RecordedTabEvent {
+  time: number;
+  event: TabEvent["event"];
+  tab: Page;
+  pageType: string;
+  preset: undefined | string;
+}
+
+/** The events of the current test, in the order they happened */
+const events: RecordedTabEvent[] = [];
+
+/** Numbers of the contexts of the current test, in the order their first tab was tracked */
+const contextNumbers = new Map<BrowserContext, number>();
+
+/** Numbers of the tabs of the current test, in the order they were tracked within their context */
+const tabNumbers = new Map<Page, number>();
+
+/**
+ * Records an event of a tab in the timeline
+ *
+ * @param event - What happened to the tab
+ * @param tab - The tab
+ * @param pageType - The page type of the tab when the event happened
+ * @param preset - The preset the tab's context was created from, if any
+ */
+function record(
+  event: TabEvent["event"],
+  tab: Page,
+  pageType: string,
+  preset: undefined | string
+) {
+  const context = tab.context();
+  if (!contextNumbers.has(context))
+    contextNumbers.set(context, contextNumbers.size);
+  if (!tabNumbers.has(tab))
+    tabNumbers.set(
+      tab,
+      [...tabNumbers.keys()].filter((other) => other.context() === context)
+        .length
+    );
+  events.push({ time: Date.now(), event, tab, pageType, preset });
+}
+
+/**
+ * Attaches the timeline of the current test to the report.
+ * Contexts and tabs are identified by their alias, or by the order they were opened in,
+ * and contexts created from a preset are given its name.
+ */
+async function attachTimeline() {
+  const timeline: TabEvent[] = events.map(
+    ({ time, event, tab, pageType, preset }) => {
+      const context = tab.context();
+      return {
+        time,
+        event,
+        context:
+          aliasDataHelper.alias(context) ?? contextNumbers.get(context) ?? 0,
+        tab: aliasDataHelper.alias(tab) ?? tabNumbers.get(tab) ?? 0,
+        pageType,
+        ...(preset !== undefined && { preset }),
+      };
+    }
+  );
+  await test.info().attach("playwrap-tab-timeline", {
+    body: JSON.stringify(timeline, null, 2),
+    contentType: "application/json",
+  });
+}
+
+/**
+ * Clears the timeline
+ *
+ * This method is typically called at the start of a test to ensure a clean state.
+ */
+function resetTimeline() {
+  events.length = 0;
+  contextNumbers.clear();
+  tabNumbers.clear();
+}
+
+/**
+ * Helper module for recording which tab was open, and which was the working tab, at any point of a test.
+ *
+ * It is fed by the tab tracking of tabDataHelper.
+ */
+export const tabTimelineHelper = {
+  record,
+  attachTimeline,
+  resetTimeline,
+} as const;
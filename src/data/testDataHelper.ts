@@ -2,55 +2,389 @@
  * @description This module provides a mechanism for storing and retrieving test data
  * across different test steps. It enables data sharing between test step methods,
  * allowing for cleaner test files.
+ *
+ * Data can be stored in three scopes, all sharing the same API:
+ * 1. Test scope - Reset before each test
+ * 2. Worker scope - Lives for the whole worker, e.g. to share data created in a beforeAll hook
+ * 3. Run scope - Persisted to a file under the output directory and shared by all workers of the run,
+ * e.g. to hand data created by a setup project to the tests that depend on it
  */
 
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { test } from "@playwright/test";
+import type { TestDataValue } from "../types/frameworkTypes.js";
+import { sharedFileHelper } from "./sharedFileHelper.js";
+
+/** Test data values organized by keys */
+type TestData = Map<string, unknown[]>;
+
+/** Storage of the test data of a scope */
+interface TestDataBackend {
+  /** @returns The stored test data */
+  read(): TestData;
+  /** Applies changes to the stored test data */
+  modify(mutate: (testData: TestData) => void): void;
+}
+
+/** Stamp identifying the run that wrote the run scoped test data */
+interface RunStamp {
+  /** Id of the run */
+  runId: string;
+  /** Process id of the Playwright runner that started the workers of the run */
+  runner: number;
+}
+
 /**
- * Map that stores test data values organized by keys.
- * Each key maps to an array of string values that can be accessed by index.
+ * Environment variable carrying the id of the run.
+ * Playwright passes the variables set by a worker to the workers of the projects that depend on its project.
  */
-const testData = new Map<string, string[]>();
+const runIdVariable = "PLAYWRAP_RUN_ID";
+
+/** Path of the file storing the run scoped test data. Set when a worker starts */
+let runTestDataFile: undefined | string;
+
 /**
- * Stores a value in the array of values for the specified key.
+ * Creates a backend that keeps the test data in memory.
  *
- * If the key doesn't exist yet, it creates a new array for that key.
- * Each subsequent value is appended to the end of the array.
+ * @returns The in-memory backend
+ */
+function memoryBackend(): TestDataBackend {
+  const testData: TestData = new Map();
+  return {
+    read: () => testData,
+    modify: (mutate) => mutate(testData),
+  };
+}
+
+/**
+ * @returns The path of the file storing the run scoped test data
+ * @throws Error if no worker has initialized the run scope
+ */
+function runFile() {
+  if (!runTestDataFile)
+    throw new Error("Run scoped test data is not initialized");
+  return runTestDataFile;
+}
+
+/**
+ * @returns The run scoped test data, as currently persisted
+ */
+function readRunTestData(): TestData {
+  const content = sharedFileHelper.readJson(runFile()) as
+    | undefined
+    | Record<string, unknown[]>;
+  return new Map(Object.entries(content ?? {}));
+}
+
+/** Backend that persists the test data to a file shared by all workers of the run */
+const runBackend: TestDataBackend = {
+  read: readRunTestData,
+  modify(mutate) {
+    const file = runFile();
+    sharedFileHelper.withLock(file, () => {
+      const testData = readRunTestData();
+      mutate(testData);
+      sharedFileHelper.writeJsonAtomically(file, Object.fromEntries(testData));
+    });
+  },
+};
+
+/**
+ * Converts a possibly negative index to a position within an array of values.
+ * Negative indices count back from the latest value, e.g. -1 is the latest value.
  *
- * @param key - The category of test data to store the value under
- * @param value - The string value to store
+ * @param values - The values of a key
+ * @param index - The index to convert
+ * @returns The position of the index, or undefined if it is out of bounds
  */
-function pushTestData<T extends string>(key: T, value: string) {
-  let values = testData.get(key);
-  if (!values) {
-    values = [];
-    testData.set(key, values);
-  }
-  values.push(value);
+function toPosition(values: unknown[], index: number) {
+  const position = index < 0 ? values.length + index : index;
+  return position >= 0 && position < values.length ? position : undefined;
 }
 
 /**
- * Retrieves a value from the array of values for the specified key.
+ * Finds the values of a key and the position of an index within them.
  *
- * @param key - The category of test data to retrieve from
- * @param index - The index of the value to retrieve
- * @returns The stored string value at the specified index
+ * @param testData - The test data to search
+ * @param key - The category of test data
+ * @param index - The index of the value. Negative indices count back from the latest value
+ * @returns The values of the key and the position of the index within them
  * @throws Error if the key doesn't exist, or the index is out of bounds
  */
-function getTestData<T extends string>(key: T, index: number) {
+function locate(testData: TestData, key: string, index: number) {
   const values = testData.get(key);
-  let value;
-  if (!values || !(value = values[index]))
+  const position = values && toPosition(values, index);
+  if (!values || position === undefined)
     throw new Error(`No test data found for "${key}" at "${index}"`);
-  return value;
+  return { values, position };
+}
+
+/**
+ * Creates the test data API of a scope.
+ *
+ * @param backend - The storage of the scope's test data
+ * @returns The functions to store, retrieve and reset the scope's test data
+ */
+function createTestDataStore(backend: TestDataBackend) {
+  /**
+   * Stores a value in the array of values for the specified key.
+   *
+   * If the key doesn't exist yet, it creates a new array for that key.
+   * Each subsequent value is appended to the end of the array.
+   *
+   * @param key - The category of test data to store the value under
+   * @param value - The value to store
+   */
+  function pushTestData<T extends string>(key: T, value: TestDataValue<T>) {
+    backend.modify((testData) => {
+      let values = testData.get(key);
+      if (!values) {
+        values = [];
+        testData.set(key, values);
+      }
+      values.push(value);
+    });
+  }
+
+  /**
+   * Retrieves a value from the array of values for the specified key.
+   *
+   * @param key - The category of test data to retrieve from
+   * @param index - The index of the value to retrieve. Negative indices count back from the latest value
+   * @returns The stored value at the specified index
+   * @throws Error if the key doesn't exist, or the index is out of bounds
+   */
+  function getTestData<T extends string>(key: T, index: number) {
+    const { values, position } = locate(backend.read(), key, index);
+    return values[position] as TestDataValue<T>;
+  }
+
+  /**
+   * Retrieves the most recently stored value for the specified key.
+   *
+   * @param key - The category of test data to retrieve from
+   * @returns The latest stored value
+   * @throws Error if the key doesn't exist
+   */
+  function getLatest<T extends string>(key: T) {
+    return getTestData(key, -1);
+  }
+
+  /**
+   * Retrieves all values stored for the specified key.
+   *
+   * @param key - The category of test data to retrieve from
+   * @returns A copy of the stored values, or an empty array if the key doesn't exist
+   */
+  function getAll<T extends string>(key: T) {
+    return [...(backend.read().get(key) ?? [])] as TestDataValue<T>[];
+  }
+
+  /**
+   * Refers to a value that may not be stored yet, e.g. when building a step sequence.
+   *
+   * @param key - The category of test data to retrieve from
+   * @param index - The index of the value to retrieve. Defaults to the latest value
+   * @returns A function retrieving the value when called
+   */
+  function ref<T extends string>(key: T, index = -1) {
+    return () => getTestData(key, index);
+  }
+
+  /**
+   * Refers to all values stored for the specified key, including those not stored yet, e.g. when building a step sequence.
+   *
+   * @param key - The category of test data to retrieve from
+   * @returns A function retrieving the values when called
+   */
+  function refAll<T extends string>(key: T) {
+    return () => getAll(key);
+  }
+
+  /**
+   * Checks whether a value is stored for the specified key.
+   *
+   * @param key - The category of test data to check
+   * @param index - The index to check. If omitted, checks whether the key has any value
+   * @returns Whether the value exists
+   */
+  function has<T extends string>(key: T, index?: number) {
+    const values = backend.read().get(key);
+    if (!values) return false;
+    if (index === undefined) return values.length > 0;
+    return toPosition(values, index) !== undefined;
+  }
+
+  /**
+   * Replaces a stored value for the specified key.
+   *
+   * @param key - The category of test data to update
+   * @param index - The index of the value to replace. Negative indices count back from the latest value
+   * @param value - The new value
+   * @throws Error if the key doesn't exist, or the index is out of bounds
+   */
+  function update<T extends string>(
+    key: T,
+    index: number,
+    value: TestDataValue<T>
+  ) {
+    backend.modify((testData) => {
+      const { values, position } = locate(testData, key, index);
+      values[position] = value;
+    });
+  }
+
+  /**
+   * Removes stored values for the specified key.
+   *
+   * @param key - The category of test data to remove from
+   * @param index - The index of the value to remove. If omitted, all values of the key are removed
+   * @throws Error if the key doesn't exist, or the index is out of bounds
+   */
+  function remove<T extends string>(key: T, index?: number) {
+    backend.modify((testData) => {
+      if (index === undefined) {
+        if (!testData.delete(key))
+          throw new Error(`No test data found for "${key}"`);
+        return;
+      }
+      const { values, position } = locate(testData, key, index);
+      values.splice(position, 1);
+    });
+  }
+
+  /**
+   * @returns A plain object containing all stored test data, keyed by category
+   */
+  function snapshot() {
+    return Object.fromEntries(backend.read());
+  }
+
+  /**
+   * Resets all test data of the scope.
+   */
+  function resetTestData() {
+    backend.modify((testData) => testData.clear());
+  }
+
+  return {
+    pushTestData,
+    getTestData,
+    getLatest,
+    getAll,
+    ref,
+    refAll,
+    has,
+    update,
+    remove,
+    snapshot,
+    resetTestData,
+  };
+}
+
+/** Test data of the current test. Reset before each test */
+const testScope = createTestDataStore(memoryBackend());
+
+/** Test data of the current worker. Reset when the worker starts */
+const workerScope = createTestDataStore(memoryBackend());
+
+/**
+ * Test data shared by all workers of the run. Values must be JSON serializable.
+ * Reset when the first worker of a run started by another Playwright runner process starts.
+ */
+const runScope = createTestDataStore(runBackend);
+
+/**
+ * Checks whether the run scoped test data was written by the run the worker belongs to.
+ *
+ * Workers of projects that depend on another project inherit the id of its run.
+ * Other workers belong to the stamped run if it was started by the same Playwright runner process.
+ * Worker processes are not taken into account, since a worker restarted after a failure belongs to the same run.
+ * Runs started from UI or watch mode share the runner process, and therefore the run scoped test data.
+ *
+ * @param stamp - The stamp of the run that wrote the run scoped test data
+ * @returns Whether the worker belongs to the stamped run
+ */
+function belongsTo(stamp: undefined | RunStamp): stamp is RunStamp {
+  if (!stamp) return false;
+  const inheritedRunId = process.env[runIdVariable];
+  if (inheritedRunId !== undefined) return stamp.runId === inheritedRunId;
+  return stamp.runner === process.ppid;
+}
+
+/**
+ * Points the run scoped test data to its file under the output directory,
+ * and resets it if it was written by a previous run.
+ * The file is left as is if other workers of the run may already have written to it.
+ *
+ * @param outputDir - The output directory of the project
+ */
+function initRunTestData(outputDir: string) {
+  const file = path.join(outputDir, ".playwrap", "run-test-data.json");
+  const stampFile = path.join(outputDir, ".playwrap", "run.json");
+  runTestDataFile = file;
+  sharedFileHelper.withLock(stampFile, () => {
+    let stamp = sharedFileHelper.readJson(stampFile) as undefined | RunStamp;
+    if (!belongsTo(stamp)) {
+      sharedFileHelper.withLock(file, () => fs.rmSync(file, { force: true }));
+      stamp = {
+        runId: process.env[runIdVariable] ?? randomUUID(),
+        runner: process.ppid,
+      };
+      sharedFileHelper.writeJsonAtomically(stampFile, stamp);
+    }
+    process.env[runIdVariable] = stamp.runId;
+  });
+}
+
+/**
+ * Creates a JSON.stringify replacer for values that plain JSON cannot represent.
+ * BigInts are written as strings with an "n" suffix, and circular references as "[Circular]".
+ *
+ * @returns The replacer
+ */
+function snapshotReplacer() {
+  const ancestors: unknown[] = [];
+  return function (this: unknown, _key: string, value: unknown) {
+    if (typeof value === "bigint") return `${value}n`;
+    if (typeof value !== "object" || value === null) return value;
+    while (ancestors.length > 0 && ancestors.at(-1) !== this) ancestors.pop();
+    if (ancestors.includes(value)) return "[Circular]";
+    ancestors.push(value);
+    return value;
+  };
+}
+
+/**
+ * Serializes the test scoped data for the snapshot. Never throws, since it runs during teardown.
+ *
+ * @returns The JSON of the test scoped data, or a note on why it could not be serialized
+ */
+function serializeSnapshot() {
+  try {
+    return JSON.stringify(testScope.snapshot(), snapshotReplacer(), 2);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : `${error}`;
+    return JSON.stringify(
+      { error: `Test data could not be serialized: ${reason}` },
+      null,
+      2
+    );
+  }
 }
 
 /**
- * Resets all test data by clearing the internal Map.
+ * Attaches a JSON snapshot of all test scoped data to the report of the current test.
  *
- * This method is typically called before each test to ensure
- * data from previous tests doesn't affect the current test.
+ * This method is typically called during teardown of a test that did not have its expected outcome.
  */
-function resetTestData() {
-  testData.clear();
+async function attachSnapshot() {
+  await test.info().attach("playwrap-test-data", {
+    body: serializeSnapshot(),
+    contentType: "application/json",
+  });
 }
 
 /**
@@ -58,9 +392,12 @@ function resetTestData() {
  *
  * This module provides functionality to store, retrieve, and reset test data during test execution.
  * It enables data sharing between test step methods, allowing for cleaner test files.
+ * The worker and run scopes expose the same functions as the test scope.
  */
 export const testDataHelper = {
-  pushTestData,
-  getTestData,
-  resetTestData,
+  ...testScope,
+  attachSnapshot,
+  worker: workerScope,
+  run: runScope,
+  initRunTestData,
 };
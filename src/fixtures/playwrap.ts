@@ -5,12 +5,25 @@
  */
 
 import { test, type APIRequest, type Browser } from "@playwright/test";
-import type { ErrorListenerOptions } from "../types/frameworkTypes.js";
+import type {
+  ErrorListenerOptions,
+  HarMode,
+  StepBudget,
+  WorkingTabClosePolicy,
+} from "../types/frameworkTypes.js";
 import { tabDataHelper } from "../data/tabDataHelper.js";
+import { tabTimelineHelper } from "../data/tabTimelineHelper.js";
 import { testDataHelper } from "../data/testDataHelper.js";
 import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { aliasDataHelper } from "../data/aliasDataHelper.js";
 import { browserHelper } from "../channel/browserHelper.js";
+import { requestHelper } from "../channel/requestHelper.js";
+import { roleHelper } from "../channel/roleHelper.js";
+import { mockHelper } from "../channel/mockHelper.js";
 import { stepSequenceHelper } from "../chaining/stepSequenceHelper.js";
+import { stepTimingHelper } from "../chaining/stepTimingHelper.js";
+import { errorListener } from "../listeners/errorListener.js";
+import { cleanupHelper } from "../teardown/cleanupHelper.js";
 
 /**
  * Extended test fixture that enhances Playwright's base test fixture with additional capabilities
@@ -23,12 +36,66 @@ export const baseFixture = test.extend<
      */
     errorListenerOptions: ErrorListenerOptions;
 
+    /**
+     * What happens when the working tab is closed by the application, e.g. through window.close().
+     * Either any further access to the working tab fails, or another open tab becomes the working tab.
+     */
+    workingTabClosePolicy: WorkingTabClosePolicy;
+
+    /**
+     * Whether a JSON snapshot of the test data is attached to the report
+     * of tests that do not have their expected outcome.
+     */
+    attachTestDataOnFailure: boolean;
+
+    /**
+     * Whether a JSON snapshot of the test data is attached to the report of every test,
+     * e.g. so that the playwrap reporter shows the final test data of passing tests too.
+     */
+    attachTestDataAlways: boolean;
+
+    /**
+     * Whether a screenshot, the URL and page type, and an ARIA snapshot of the working tab,
+     * along with the list of open contexts and tabs, are attached to steps that fail.
+     * Disabled by default, like Playwright's screenshot option, since the captures slow down failing steps.
+     */
+    captureFailureArtifacts: boolean;
+
+    /**
+     * Pattern matching the stack trace rows that point to spec files, e.g. /\.e2e\.ts:\d+:\d+/.
+     * Failed steps point to the spec file row that added them. By default, the file of the running test is matched.
+     */
+    specFilePattern: undefined | RegExp;
+
+    /**
+     * Whether the network traffic of every context opened through playwrap is recorded to,
+     * or replayed from, a HAR file per context stored under the HAR directory.
+     */
+    harMode: HarMode;
+
+    /**
+     * Directory the HAR files are stored under, relative to the project's test directory.
+     * By default, they are stored in a "__hars__" directory of the test directory.
+     */
+    harDir: undefined | string;
+
+    /**
+     * Maximum durations of the steps, e.g. [{ title: /Login/, maxDuration: 3000 }].
+     * Steps exceeding a budget fail the test, or add a warning to the report.
+     */
+    stepBudgets: StepBudget[];
+
     /**
      * Automatic fixture that handles data initialization, and browser teardown.
      */
     auto: void;
   },
-  object
+  {
+    /**
+     * Automatic worker fixture that initializes the worker and run scoped test data, and the sessions of the roles.
+     */
+    autoWorker: void;
+  }
 >({
   errorListenerOptions: [
     {
@@ -38,23 +105,123 @@ export const baseFixture = test.extend<
     },
     { option: true },
   ],
+  workingTabClosePolicy: ["fail", { option: true }],
+  attachTestDataOnFailure: [true, { option: true }],
+  attachTestDataAlways: [false, { option: true }],
+  captureFailureArtifacts: [false, { option: true }],
+  specFilePattern: [undefined, { option: true }],
+  harMode: ["off", { option: true }],
+  harDir: [undefined, { option: true }],
+  stepBudgets: [[], { option: true }],
 
   /**
    * Automatic fixture that runs before and after each test
    * Handles:
    * - Initializing test data
-   * - Closing all browser contexts
+   * - Reporting the failures of soft steps that the test did not await
+   * - Attaching the step timeline, and reporting the steps that exceeded their budget
+   * - Running the registered cleanups in reverse order, even if the test or the budget report failed
+   * - Closing all browser contexts, even if the budget report failed
+   * - Disposing of all API request contexts, even if closing the browser contexts failed
+   * - Reporting the errors captured by the error listener in "collect" mode, even if the teardown failed
+   * - Attaching the test data of every test, or of tests that did not have their expected outcome,
+   *   including those failed by a budget, a cleanup or a captured error, even if the teardown failed
+   * - Attaching the tab timeline, even if the teardown failed
    */
   auto: [
-    async ({ playwright, browser, baseURL, errorListenerOptions }, use) => {
-      initTestData(baseURL, playwright.request, browser, errorListenerOptions);
+    async (
+      {
+        playwright,
+        browser,
+        baseURL,
+        errorListenerOptions,
+        workingTabClosePolicy,
+        attachTestDataOnFailure,
+        attachTestDataAlways,
+        captureFailureArtifacts,
+        specFilePattern,
+        harMode,
+        harDir,
+        stepBudgets,
+      },
+      use,
+      testInfo
+    ) => {
+      initTestData(
+        baseURL,
+        playwright.request,
+        browser,
+        errorListenerOptions,
+        workingTabClosePolicy,
+        captureFailureArtifacts,
+        specFilePattern,
+        harMode,
+        harDir,
+        stepBudgets
+      );
       await use();
-      await browserHelper.closeAllContexts();
+      const capturedErrors = errorListener.stopCollecting();
+      let teardownFailed = true;
+      try {
+        try {
+          try {
+            stepSequenceHelper.reportPendingSoftFailures();
+            await stepTimingHelper.reportTimeline();
+          } finally {
+            await cleanupHelper.runCleanups();
+            try {
+              await browserHelper.closeAllContexts();
+            } finally {
+              await requestHelper.disposeAllContexts();
+            }
+          }
+        } finally {
+          await errorListener.reportCapturedErrors(capturedErrors);
+        }
+        teardownFailed = false;
+      } finally {
+        const status =
+          teardownFailed && testInfo.status === "passed"
+            ? "failed"
+            : testInfo.status;
+        if (
+          attachTestDataAlways ||
+          (attachTestDataOnFailure && status !== testInfo.expectedStatus)
+        )
+          await testDataHelper.attachSnapshot();
+        await tabTimelineHelper.attachTimeline();
+      }
     },
     { auto: true },
   ],
+
+  /**
+   * Automatic fixture that runs once per worker, before any of its tests
+   */
+  autoWorker: [
+    async ({}, use, workerInfo) => {
+      initWorkerData(workerInfo.project.outputDir, workerInfo.workerIndex);
+      await use();
+    },
+    { scope: "worker", auto: true },
+  ],
 });
 
+/**
+ * Initializes the worker and run scoped test data, and the saved sessions of the roles, when a worker starts
+ *
+ * The run scoped test data and the sessions are stored under the project's output directory.
+ * The run scoped test data is reset when the first worker of a run started by another Playwright runner process starts.
+ *
+ * @param outputDir - The output directory of the worker's project
+ * @param workerIndex - The index of the worker
+ */
+function initWorkerData(outputDir: string, workerIndex: number) {
+  testDataHelper.worker.resetTestData();
+  testDataHelper.initRunTestData(outputDir);
+  roleHelper.initRoles(outputDir, workerIndex);
+}
+
 /**
  * Initializes test data and framework data for a test run
  *
@@ -62,22 +229,47 @@ export const baseFixture = test.extend<
  * @param apiRequest - Playwright APIRequest object for making API calls
  * @param browser - Playwright Browser instance
  * @param errorListenerOptions - Configuration for error handling behavior
+ * @param workingTabClosePolicy - What happens when the working tab is closed by the application
+ * @param captureFailureArtifacts - Whether diagnostics of the working tab are attached to failed steps
+ * @param specFilePattern - Pattern matching stack trace rows that point to spec files
+ * @param harMode - Whether the network traffic of the contexts is recorded or replayed
+ * @param harDir - Directory the HAR files are stored under
+ * @param stepBudgets - Maximum durations of the steps
  * @throws Error if baseURL is undefined
  */
 function initTestData(
   baseUrl: string | undefined,
   apiRequest: APIRequest,
   browser: Browser,
-  errorListenerOptions: ErrorListenerOptions
+  errorListenerOptions: ErrorListenerOptions,
+  workingTabClosePolicy: WorkingTabClosePolicy,
+  captureFailureArtifacts: boolean,
+  specFilePattern: undefined | RegExp,
+  harMode: HarMode,
+  harDir: undefined | string,
+  stepBudgets: StepBudget[]
 ) {
   if (!baseUrl) throw new Error("baseURL is undefined");
   tabDataHelper.resetPageTypes();
+  aliasDataHelper.resetAliases();
   testDataHelper.resetTestData();
+  requestHelper.resetRequestContexts();
   stepSequenceHelper.resetStepSequence();
+  errorListener.resetCapturedErrors();
+  cleanupHelper.resetCleanups();
+  mockHelper.resetMocks();
+  stepTimingHelper.resetTimeline();
+  tabTimelineHelper.resetTimeline();
   frameworkDataHelper.init({
     apiRequest: apiRequest,
     baseUrl: baseUrl,
     browser: browser,
     errorListenerOptions: errorListenerOptions,
+    workingTabClosePolicy: workingTabClosePolicy,
+    captureFailureArtifacts: captureFailureArtifacts,
+    specFilePattern: specFilePattern,
+    harMode: harMode,
+    harDir: harDir,
+    stepBudgets: stepBudgets,
   });
 }
@@ -1,41 +1,595 @@
-import { expect, type Page } from "@playwright/test";
+import {
+  expect,
+  test,
+  type APIRequestContext,
+  type APIResponse,
+  type BrowserContext,
+  type Page,
+} from "@playwright/test";
+import type {
+  CapturedError,
+  ErrorCategory,
+  ErrorIgnoreRule,
+  ErrorIgnoreRules,
+} from "../types/frameworkTypes.js";
 import { frameworkDataHelper } from "../data/frameworkDataHelper.js";
+import { aliasDataHelper } from "../data/aliasDataHelper.js";
+import { tabDataHelper } from "../data/tabDataHelper.js";
+import { globHelper } from "../data/globHelper.js";
+import { stepSequenceHelper } from "../chaining/stepSequenceHelper.js";
 
 /**
  * @description This module provides error handling capabilities by attaching various
- * error listeners to Playwright page objects.
+ * error listeners to Playwright page objects and API request contexts.
  */
 
+/** Errors recorded in "collect" mode during the current test */
+const capturedErrors: CapturedError[] = [];
+
+/** Whether errors are currently being recorded. Disabled during teardown */
+let collecting = true;
+
+/** All categories of errors detected by the error listeners attached to tabs */
+const tabErrorCategories: ErrorCategory[] = [
+  "jsError",
+  "connectionError",
+  "requestError",
+  "consoleMessage",
+  "dialog",
+  "crash",
+  "webSocketError",
+];
+
+/** WebSocket close codes that indicate a normal closure */
+const normalCloseCodes = [1000, 1001, 1005];
+
+/** Maximum number of characters of a response body included in error messages */
+const maxBodyLength = 500;
+
+/** Key under which per-call ignore rules are stored in the options of an API request */
+const apiCallIgnoreRuleKey = Symbol("playwrap.apiCallIgnoreRule");
+
+/** The tab that most recently opened a WebSocket to each URL, per context, so that closures can be reported against it */
+const webSocketTabs = new WeakMap<BrowserContext, Map<string, Page>>();
+
+/** Ignore rules added to specific tabs during the test, on top of the configured ones */
+const tabIgnoreRules = new WeakMap<Page, ErrorIgnoreRules[]>();
+
+/** The details of a detected error that ignore rules are matched against */
+interface ErrorDetails {
+  url?: string;
+  method?: string;
+  status?: number;
+  message: string;
+}
+
+/**
+ * @param rule - The ignore rule to check
+ * @param details - The details of the detected error
+ * @returns Whether every criterion specified by the rule matches the error
+ */
+function matchesRule(rule: ErrorIgnoreRule, details: ErrorDetails) {
+  if (rule.url !== undefined) {
+    if (details.url === undefined || !globHelper.matches(details.url, rule.url))
+      return false;
+  }
+  if (
+    rule.method !== undefined &&
+    rule.method.toUpperCase() !== details.method?.toUpperCase()
+  )
+    return false;
+  if (rule.status !== undefined) {
+    const [from, to] =
+      typeof rule.status === "number"
+        ? [rule.status, rule.status]
+        : rule.status;
+    if (
+      details.status === undefined ||
+      details.status < from ||
+      details.status > to
+    )
+      return false;
+  }
+  if (rule.message !== undefined) {
+    const matchesMessage =
+      typeof rule.message === "string"
+        ? details.message.includes(rule.message)
+        : rule.message.test(details.message);
+    if (!matchesMessage) return false;
+  }
+  return true;
+}
+
+/**
+ * @param page - The page the error occurred in
+ * @param category - The kind of error
+ * @param details - The details of the error
+ * @returns Whether a configured rule, or a rule added to the page, ignores the error
+ */
+function isIgnored(page: Page, category: ErrorCategory, details: ErrorDetails) {
+  return [
+    frameworkDataHelper.errorListenerOptions().ignore,
+    ...(tabIgnoreRules.get(page) ?? []),
+  ]
+    .flatMap((rules) => rules?.[category] ?? [])
+    .some((rule) => matchesRule(rule, details));
+}
+
+/**
+ * @returns Whether detected errors should be recorded instead of failing immediately
+ */
+function collectMode() {
+  return frameworkDataHelper.errorListenerOptions().mode === "collect";
+}
+
+/**
+ * @param page - The page to describe
+ * @returns The alias or indices of the page, e.g. ["buyer",0] or [1,2]
+ */
+function tabLabel(page: Page) {
+  const context = page.context();
+  const contextIndex = frameworkDataHelper
+    .browser()
+    .contexts()
+    .indexOf(context);
+  const tabIndex = context.pages().indexOf(page);
+  return aliasDataHelper.tabLabel(
+    aliasDataHelper.alias(context) ?? contextIndex,
+    aliasDataHelper.alias(page) ?? tabIndex
+  );
+}
+
+/**
+ * @param requestContext - The request context to describe
+ * @returns The alias of the request context, if it has one, prefixed with "API"
+ */
+function requestContextLabel(requestContext: APIRequestContext) {
+  const alias = aliasDataHelper.alias(requestContext);
+  return alias ? `API "${alias}"` : "API";
+}
+
+/**
+ * Records an error along with the tab it occurred in and the step that was running
+ *
+ * @param category - The kind of error
+ * @param message - The error message
+ * @param tab - The label of the tab or request context the error occurred in
+ * @param pageType - The page type of the tab the error occurred in
+ * @param preset - The preset the tab's context was created from
+ */
+function capture(
+  category: ErrorCategory,
+  message: string,
+  tab: string,
+  pageType: string | undefined,
+  preset?: string
+) {
+  if (!collecting) return;
+  capturedErrors.push({
+    timestamp: new Date().toISOString(),
+    category,
+    message,
+    tab,
+    pageType,
+    ...(preset !== undefined && { preset }),
+    step: stepSequenceHelper.currentStepTitle(),
+  });
+}
+
+/**
+ * Reports a detected error, unless it is ignored
+ *
+ * The error is recorded in "collect" mode. Otherwise, the provided assertion is run to fail the test.
+ *
+ * @param page - The page the error occurred in
+ * @param category - The kind of error
+ * @param details - The details the ignore rules are matched against
+ * @param message - The message describing the error
+ * @param fail - The assertion that fails the test
+ */
+function report(
+  page: Page,
+  category: ErrorCategory,
+  details: ErrorDetails,
+  message: string,
+  fail: () => void
+) {
+  if (isIgnored(page, category, details)) return;
+  if (collectMode())
+    capture(
+      category,
+      message,
+      tabLabel(page),
+      tabDataHelper.pageType(page),
+      tabDataHelper.contextPreset(page.context())
+    );
+  else fail();
+}
+
+/**
+ * Reports an error detected in an API request context, unless it is ignored
+ *
+ * @param requestContext - The request context that sent the request
+ * @param category - The kind of error
+ * @param details - The details the ignore rules are matched against
+ * @param message - The message describing the error
+ * @param callRule - The ignore rule passed with the request, if any
+ * @param fail - The assertion that fails the test
+ */
+function reportApiError(
+  requestContext: APIRequestContext,
+  category: ErrorCategory,
+  details: ErrorDetails,
+  message: string,
+  callRule: ErrorIgnoreRule | undefined,
+  fail: () => void
+) {
+  const rules = [
+    ...(frameworkDataHelper.errorListenerOptions().ignore?.[category] ?? []),
+    ...(callRule ? [callRule] : []),
+  ];
+  if (rules.some((rule) => matchesRule(rule, details))) return;
+  if (collectMode())
+    capture(category, message, requestContextLabel(requestContext), undefined);
+  else fail();
+}
+
+/**
+ * Marks the options of an API request, so that the errors it causes are not reported.
+ * The options can be passed to any method of a request context, e.g. get or post.
+ *
+ * @param fetchOptions - The options of the request
+ * @param rule - The errors to ignore. All errors by default
+ * @returns The same options object
+ */
+function ignoringApiErrors<T extends object>(
+  fetchOptions: T,
+  rule: ErrorIgnoreRule = {}
+): T {
+  Object.assign(fetchOptions, { [apiCallIgnoreRuleKey]: rule });
+  return fetchOptions;
+}
+
+/**
+ * @param fetchOptions - The options of an API request
+ * @returns The ignore rule attached to the options through ignoringApiErrors, if any
+ */
+function apiCallIgnoreRule(fetchOptions: object | undefined) {
+  if (!fetchOptions || !(apiCallIgnoreRuleKey in fetchOptions)) return;
+  return fetchOptions[apiCallIgnoreRuleKey] as ErrorIgnoreRule;
+}
+
+/**
+ * @param response - The response to read
+ * @returns The response body, truncated to a readable length
+ */
+async function truncatedBody(response: APIResponse) {
+  const body = await response.text().catch(() => "");
+  return body.length > maxBodyLength
+    ? `${body.slice(0, maxBodyLength)}...`
+    : body;
+}
+
+/**
+ * Attaches error detection to a Playwright API request context based on the configuration
+ *
+ * Every request method of a request context (get, post, etc.) is sent through its fetch method,
+ * which is wrapped to detect HTTP error responses and connection failures.
+ *
+ * @param requestContext - The Playwright APIRequestContext to attach error detection to
+ */
+function attachToRequestContext(requestContext: APIRequestContext) {
+  const { failOnApiRequestError, failOnApiConnectionError } =
+    frameworkDataHelper.errorListenerOptions();
+  if (!failOnApiRequestError && !failOnApiConnectionError) return;
+  const fetch = requestContext.fetch.bind(requestContext);
+  requestContext.fetch = async (urlOrRequest, fetchOptions) => {
+    const url =
+      typeof urlOrRequest === "string" ? urlOrRequest : urlOrRequest.url();
+    const method =
+      fetchOptions?.method ??
+      (typeof urlOrRequest === "string" ? "GET" : urlOrRequest.method());
+    const callRule = apiCallIgnoreRule(fetchOptions);
+    let response: APIResponse;
+    try {
+      response = await fetch(urlOrRequest, fetchOptions);
+    } catch (error) {
+      if (failOnApiConnectionError) {
+        const errorText = error instanceof Error ? error.message : `${error}`;
+        const message = `API request failed [${errorText}]: ${method} ${url}`;
+        const details = { url, method, message: errorText };
+        reportApiError(
+          requestContext,
+          "apiConnectionError",
+          details,
+          message,
+          callRule,
+          () => {
+            throw new Error(message, { cause: error });
+          }
+        );
+      }
+      throw error;
+    }
+    if (failOnApiRequestError && response.status() >= 400) {
+      const body = await truncatedBody(response);
+      const message = `Error code: "${response.status()} ${response.statusText()}" from ${method} ${response.url()}\n${body}`;
+      const details = {
+        url: response.url(),
+        method,
+        status: response.status(),
+        message: response.statusText(),
+      };
+      reportApiError(
+        requestContext,
+        "apiRequestError",
+        details,
+        message,
+        callRule,
+        () => expect(response.status(), message).toBeLessThan(400)
+      );
+    }
+    return response;
+  };
+}
+
+/**
+ * Attaches a listener for WebSocket errors to a Playwright page
+ *
+ * @param page - The Playwright Page object to attach the listener to
+ */
+function attachWebSocketListeners(page: Page) {
+  page.on("websocket", (webSocket) =>
+    webSocket.on("socketerror", (error) => {
+      const message = `WebSocket error: ${error} from ${webSocket.url()}`;
+      const details = { url: webSocket.url(), message: error };
+      report(page, "webSocketError", details, message, () =>
+        expect(error, message).toBeUndefined()
+      );
+    })
+  );
+}
+
+/**
+ * Attaches detection of abnormal WebSocket closures to a newly created browser context, if enabled
+ *
+ * Close codes are only exposed by Playwright's WebSocket routing, so every WebSocket of the context
+ * is routed to its server, with messages and closures forwarded in both directions.
+ * The route is added before any route of the test. Routes added later to the context, and routes of its pages,
+ * take precedence, so that WebSockets the test routes itself are left to those routes.
+ *
+ * @param context - The newly created browser context
+ */
+async function attachToContext(context: BrowserContext) {
+  if (!frameworkDataHelper.errorListenerOptions().failOnWebSocketClose) return;
+  const tabs = new Map<string, Page>();
+  webSocketTabs.set(context, tabs);
+  await context.routeWebSocket(/.*/, (webSocketRoute) => {
+    const server = webSocketRoute.connectToServer();
+    server.onClose((code, reason) => {
+      const page = tabs.get(webSocketRoute.url()) ?? context.pages()[0];
+      if (page && code !== undefined && !normalCloseCodes.includes(code)) {
+        const message = `WebSocket closed with code ${code}${
+          reason ? ` (${reason})` : ""
+        } from ${webSocketRoute.url()}`;
+        const details = {
+          url: webSocketRoute.url(),
+          status: code,
+          message: reason ?? "",
+        };
+        report(page, "webSocketError", details, message, () =>
+          expect(normalCloseCodes, message).toContain(code)
+        );
+      }
+      webSocketRoute
+        .close({
+          ...(code !== undefined && { code }),
+          ...(reason !== undefined && { reason }),
+        })
+        .catch(() => undefined);
+    });
+  });
+}
+
 /**
  * Attaches error listeners to a Playwright page based on the configuration
  *
  * Depending on the framework's error listener configuration, this method can attach
- * listeners for JavaScript errors, connection failures, and HTTP error responses.
- * When errors occur, test assertions will fail with descriptive error messages.
+ * listeners for JavaScript errors, connection failures, HTTP error responses, console messages,
+ * dialogs, crashes and WebSocket errors.
+ * When errors occur, test assertions will fail with descriptive error messages,
+ * or the errors will be recorded if the listener is in "collect" mode.
  *
  * @param page - The Playwright Page object to attach listeners to
  */
 function attachTo(page: Page) {
   if (frameworkDataHelper.errorListenerOptions().failOnJsError)
     page.on("pageerror", (error) => {
-      expect(error, `Uncaught JS error: ${error.message}`).toBeUndefined();
+      const message = `Uncaught JS error: ${error.message}`;
+      report(page, "jsError", { message: error.message }, message, () =>
+        expect(error, message).toBeUndefined()
+      );
     });
   if (frameworkDataHelper.errorListenerOptions().failOnConnectionError)
     page.on("requestfailed", (request) => {
-      expect(
-        request.failure(),
-        `Request failed [${request.failure()?.errorText}]: ${request.url()}`
-      ).toBeUndefined();
+      const message = `Request failed [${
+        request.failure()?.errorText
+      }]: ${request.url()}`;
+      const details = {
+        url: request.url(),
+        method: request.method(),
+        message: request.failure()?.errorText ?? "",
+      };
+      report(page, "connectionError", details, message, () =>
+        expect(request.failure(), message).toBeUndefined()
+      );
     });
   if (frameworkDataHelper.errorListenerOptions().failOnRequestError)
     page.on("response", (response) => {
       //Necessary to reduce the amount of logs in Trace
-      if (response.status() >= 400)
-        expect(
-          response.status(),
-          `Error code: "${response.status()} ${response.statusText()}" from ${response.url()}`
-        ).toBeLessThan(400);
+      if (response.status() >= 400) {
+        const message = `Error code: "${response.status()} ${response.statusText()}" from ${response.url()}`;
+        const details = {
+          url: response.url(),
+          method: response.request().method(),
+          status: response.status(),
+          message: response.statusText(),
+        };
+        report(page, "requestError", details, message, () =>
+          expect(response.status(), message).toBeLessThan(400)
+        );
+      }
+    });
+  const consoleMessageTypes =
+    frameworkDataHelper.errorListenerOptions().failOnConsoleMessage;
+  if (consoleMessageTypes?.length)
+    page.on("console", (consoleMessage) => {
+      const type = consoleMessage.type();
+      if (!consoleMessageTypes.some((reportedType) => reportedType === type))
+        return;
+      const message = `Console ${type}: ${consoleMessage.text()}`;
+      const details = {
+        url: consoleMessage.location().url,
+        message: consoleMessage.text(),
+      };
+      report(page, "consoleMessage", details, message, () =>
+        expect(consoleMessage.text(), message).toBeUndefined()
+      );
+    });
+  const dialogPolicy = frameworkDataHelper.errorListenerOptions().failOnDialog;
+  if (dialogPolicy)
+    page.on("dialog", (dialog) => {
+      const details = { url: page.url(), message: dialog.message() };
+      const handled =
+        dialogPolicy === "accept" ? dialog.accept() : dialog.dismiss();
+      handled.catch(() => undefined);
+      const message = `Unexpected ${dialog.type()} dialog: ${dialog.message()}`;
+      report(page, "dialog", details, message, () =>
+        expect(dialog.message(), message).toBeUndefined()
+      );
     });
+  if (frameworkDataHelper.errorListenerOptions().failOnCrash)
+    page.on("crash", () => {
+      const message = `Page crashed: ${page.url()}`;
+      report(page, "crash", { url: page.url(), message }, message, () =>
+        expect(page.isClosed(), message).toBeTruthy()
+      );
+    });
+  if (frameworkDataHelper.errorListenerOptions().failOnWebSocketError)
+    attachWebSocketListeners(page);
+  const tabs = webSocketTabs.get(page.context());
+  if (tabs)
+    page.on("websocket", (webSocket) => tabs.set(webSocket.url(), page));
+}
+
+/**
+ * Adds ignore rules to the working tab, on top of the configured ones.
+ * The rules apply until they are cleared with clearIgnoreRules.
+ *
+ * @param rules - The rules for errors that should not be reported, per category
+ */
+function addIgnoreRules(rules: ErrorIgnoreRules) {
+  stepSequenceHelper.addStep("Adding error ignore rules to working Tab", () => {
+    console.log("Adding error ignore rules to working Tab");
+    const tab = tabDataHelper.workingTab();
+    tabIgnoreRules.set(tab, [...(tabIgnoreRules.get(tab) ?? []), rules]);
+  });
+}
+
+/**
+ * Stops reporting errors of the specified categories on the working tab.
+ * Reporting resumes once the ignore rules are cleared with clearIgnoreRules.
+ *
+ * @param categories - The categories to suspend. All categories by default
+ */
+function suspend(categories: ErrorCategory[] = tabErrorCategories) {
+  const title = `Suspending error listener for ${categories.join(
+    ", "
+  )} on working Tab`;
+  stepSequenceHelper.addStep(title, () => {
+    console.log(title);
+    const tab = tabDataHelper.workingTab();
+    const rules: ErrorIgnoreRules = Object.fromEntries(
+      categories.map((category) => [category, [{}]])
+    );
+    tabIgnoreRules.set(tab, [...(tabIgnoreRules.get(tab) ?? []), rules]);
+  });
+}
+
+/**
+ * Removes the ignore rules added to the working tab, restoring the configured ones
+ */
+function clearIgnoreRules() {
+  stepSequenceHelper.addStep(
+    "Clearing error ignore rules of working Tab",
+    () => {
+      console.log("Clearing error ignore rules of working Tab");
+      tabIgnoreRules.delete(tabDataHelper.workingTab());
+    }
+  );
+}
+
+/**
+ * Stops recording errors and returns the ones recorded during the test.
+ *
+ * This method is called at the start of teardown, so that errors caused by closing
+ * the browser contexts (e.g. aborted requests) are not recorded.
+ *
+ * @returns The errors recorded during the test
+ */
+function stopCollecting() {
+  collecting = false;
+  return [...capturedErrors];
+}
+
+/**
+ * @param error - A recorded error
+ * @returns Where the error occurred, e.g. Tab [0][1] (Home, preset "mobile") or API "admin"
+ */
+function errorLocation(error: CapturedError) {
+  if (!tabErrorCategories.includes(error.category)) return error.tab;
+  const details = [
+    ...(error.pageType !== undefined ? [error.pageType] : []),
+    ...(error.preset ? [`preset "${error.preset}"`] : []),
+  ];
+  return `Tab ${error.tab}${
+    details.length > 0 ? ` (${details.join(", ")})` : ""
+  }`;
+}
+
+/**
+ * Attaches the recorded errors to the report as JSON and fails with a summary of them
+ *
+ * @param errors - The errors recorded during the test
+ * @throws Error listing every recorded error, if there are any
+ */
+async function reportCapturedErrors(errors: readonly CapturedError[]) {
+  if (errors.length === 0) return;
+  await test.info().attach("playwrap-errors", {
+    body: JSON.stringify(errors, null, 2),
+    contentType: "application/json",
+  });
+  const summary = errors
+    .map(
+      (error) =>
+        `[${error.timestamp}] ${error.category} in ${errorLocation(error)}${
+          error.step ? ` during "${error.step}"` : ""
+        }: ${error.message}`
+    )
+    .join("\n");
+  throw new Error(
+    `The error listener captured ${errors.length} error(s):\n${summary}`
+  );
+}
+
+/**
+ * Clears the recorded errors and resumes recording
+ *
+ * This method is typically called at the start of a test to ensure a clean state.
+ */
+function resetCapturedErrors() {
+  capturedErrors.length = 0;
+  collecting = true;
 }
 
 /**
@@ -48,4 +602,13 @@ function attachTo(page: Page) {
  */
 export const errorListener = {
   attachTo,
+  attachToContext,
+  attachToRequestContext,
+  ignoringApiErrors,
+  addIgnoreRules,
+  suspend,
+  clearIgnoreRules,
+  stopCollecting,
+  reportCapturedErrors,
+  resetCapturedErrors,
 } as const;
@@ -0,0 +1,639 @@
+/**
+ * @description This module provides a Playwright reporter that understands the attachments of playwrap.
+ * For every test, it writes a self-contained HTML page and a JSON file, with the step tree and its timings,
+ * the timeline of the contexts and tabs showing which tab was working when, the errors captured by the
+ * error listener, and the final test data. It also keeps a history of the most common failing steps across runs.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type {
+  FullConfig,
+  Reporter,
+  TestCase,
+  TestResult,
+  TestStep,
+} from "@playwright/test/reporter";
+import type {
+  CapturedError,
+  PlaywrapReporterOptions,
+  StepTiming,
+  TabEvent,
+} from "../types/frameworkTypes.js";
+
+/** An attachment of a test or step, with its content inlined */
+interface AttachmentSummary {
+  name: string;
+  contentType: string;
+  /** The text of text and JSON attachments, or a data URI of images. Other attachments are not inlined */
+  content?: string;
+}
+
+/** A step of the step tree */
+interface StepSummary {
+  title: string;
+  /** Time the step started, as an ISO timestamp */
+  startTime: string;
+  /** How long the step took, in milliseconds */
+  duration: number;
+  error?: string;
+  attachments: AttachmentSummary[];
+  steps: StepSummary[];
+}
+
+/** The summary of a test result, as written to its JSON file */
+interface TestSummary {
+  title: string[];
+  file: string;
+  line: number;
+  status: TestResult["status"];
+  expectedStatus: TestCase["expectedStatus"];
+  retry: number;
+  startTime: string;
+  duration: number;
+  errors: string[];
+  annotations: TestResult["annotations"];
+  steps: StepSummary[];
+  stepTimeline: StepTiming[];
+  tabTimeline: TabEvent[];
+  capturedErrors: CapturedError[];
+  /** The test scoped data, attached for every test with the attachTestDataAlways option, or else for failed tests */
+  testData?: unknown;
+  /** The innermost steps that failed, each given by the titles of its parent steps and its own title */
+  failingSteps: { step: string; error: string }[];
+}
+
+/** How often a step has failed, across runs */
+interface FailingStepHistory {
+  step: string;
+  failures: number;
+  lastFailedAt: string;
+  lastTest: string;
+  lastError: string;
+}
+
+/** The history of the runs reported in the output folder */
+interface History {
+  runs: number;
+  failingSteps: FailingStepHistory[];
+}
+
+/** Name of the history file in the output folder */
+const historyFileName = "history.json";
+
+/** Name of the folder of the per-test files in the output folder, cleared at the start of every run */
+const testsFolderName = "tests";
+
+/**
+ * @param text - Text that may contain terminal color codes
+ * @returns The text without color codes
+ */
+function stripAnsi(text: string) {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+/**
+ * @param text - The text to escape
+ * @returns The text, safe to insert in HTML
+ */
+function escapeHtml(text: string) {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/**
+ * @param attachment - An attachment of a test or step
+ * @returns The content of the attachment, or undefined if its file no longer exists
+ */
+function attachmentContent(attachment: TestResult["attachments"][number]) {
+  if (attachment.body) return attachment.body;
+  if (!attachment.path) return undefined;
+  try {
+    return fs.readFileSync(attachment.path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @param attachment - An attachment of a test or step
+ * @returns The attachment, with its text or image content inlined
+ */
+function summarizeAttachment(
+  attachment: TestResult["attachments"][number]
+): AttachmentSummary {
+  const summary = {
+    name: attachment.name,
+    contentType: attachment.contentType,
+  };
+  const content = attachmentContent(attachment);
+  if (!content) return summary;
+  if (attachment.contentType.startsWith("image/"))
+    return {
+      ...summary,
+      content: `data:${attachment.contentType};base64,${content.toString(
+        "base64"
+      )}`,
+    };
+  if (
+    attachment.contentType.startsWith("text/") ||
+    attachment.contentType === "application/json"
+  )
+    return { ...summary, content: content.toString("utf-8") };
+  return summary;
+}
+
+/**
+ * @param result - The result of a test
+ * @param name - The name of a JSON attachment of playwrap
+ * @returns The parsed attachment, or undefined if the test did not attach it or it is invalid
+ */
+function jsonAttachment<T>(result: TestResult, name: string) {
+  const attachment = result.attachments.find(
+    (attachment) => attachment.name === name
+  );
+  const content = attachment && attachmentContent(attachment);
+  if (!content) return undefined;
+  try {
+    return JSON.parse(content.toString("utf-8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds the step tree of a test from the steps declared through test.step.
+ * Steps of other categories, e.g. hooks, fixtures and API calls, are left out, but their child steps are kept.
+ *
+ * @param steps - The steps of a test or step
+ * @returns The summaries of the declared steps
+ */
+function summarizeSteps(steps: readonly TestStep[]): StepSummary[] {
+  return steps.flatMap((step) =>
+    step.category === "test.step"
+      ? [
+          {
+            title: step.title,
+            startTime: step.startTime.toISOString(),
+            duration: step.duration,
+            ...(step.error && {
+              error: stripAnsi(step.error.message ?? step.error.value ?? ""),
+            }),
+            attachments: step.attachments.map(summarizeAttachment),
+            steps: summarizeSteps(step.steps),
+          },
+        ]
+      : summarizeSteps(step.steps)
+  );
+}
+
+/**
+ * @param steps - The step tree of a test
+ * @param parents - The titles of the parent steps
+ * @returns The innermost failed steps, including soft steps whose parent passed,
+ * each given by the titles of its parent steps and its own title, along with its error
+ */
+function failingSteps(
+  steps: readonly StepSummary[],
+  parents: readonly string[] = []
+): TestSummary["failingSteps"] {
+  return steps.flatMap((step) => {
+    const titlePath = [...parents, step.title];
+    const failingChildSteps = failingSteps(step.steps, titlePath);
+    return failingChildSteps.length || step.error === undefined
+      ? failingChildSteps
+      : [{ step: titlePath.join(" › "), error: step.error }];
+  });
+}
+
+/**
+ * @param test - A test
+ * @param result - The result of one of its attempts
+ * @returns The summary of the result
+ */
+function summarizeTest(test: TestCase, result: TestResult): TestSummary {
+  const steps = summarizeSteps(result.steps);
+  const testData = jsonAttachment<unknown>(result, "playwrap-test-data");
+  return {
+    title: test.titlePath().filter(Boolean),
+    file: test.location.file,
+    line: test.location.line,
+    status: result.status,
+    expectedStatus: test.expectedStatus,
+    retry: result.retry,
+    startTime: result.startTime.toISOString(),
+    duration: result.duration,
+    errors: result.errors.map((error) =>
+      stripAnsi(error.message ?? error.value ?? "")
+    ),
+    annotations: result.annotations,
+    steps,
+    stepTimeline:
+      jsonAttachment<StepTiming[]>(result, "playwrap-step-timeline") ?? [],
+    tabTimeline:
+      jsonAttachment<TabEvent[]>(result, "playwrap-tab-timeline") ?? [],
+    capturedErrors:
+      jsonAttachment<CapturedError[]>(result, "playwrap-errors") ?? [],
+    ...(testData !== undefined && { testData }),
+    failingSteps: failingSteps(steps),
+  };
+}
+
+/**
+ * @param test - A test
+ * @param result - The result of one of its attempts
+ * @returns The base name of the files of the result, unique across the tests and attempts of a run
+ */
+function fileName(test: TestCase, result: TestResult) {
+  const title = test
+    .titlePath()
+    .slice(1)
+    .filter(Boolean)
+    .join("-")
+    .replace(/[^\w-]+/g, "-")
+    .slice(0, 80);
+  return `${title}-${test.id}${result.retry ? `-retry${result.retry}` : ""}`;
+}
+
+/**
+ * @param file - The history file
+ * @returns The history of the previous runs, or an empty history if the file is missing or invalid
+ */
+function readHistory(file: string): History {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as History;
+  } catch {
+    return { runs: 0, failingSteps: [] };
+  }
+}
+
+/**
+ * Adds the failing steps of a test result to the history
+ *
+ * @param history - The history to update
+ * @param summary - The summary of the test result
+ */
+function recordFailingSteps(history: History, summary: TestSummary) {
+  for (const { step, error } of summary.failingSteps) {
+    let entry = history.failingSteps.find((entry) => entry.step === step);
+    if (!entry) {
+      entry = {
+        step,
+        failures: 0,
+        lastFailedAt: "",
+        lastTest: "",
+        lastError: "",
+      };
+      history.failingSteps.push(entry);
+    }
+    entry.failures++;
+    entry.lastFailedAt = summary.startTime;
+    entry.lastTest = summary.title.join(" › ");
+    entry.lastError = error.split("\n")[0] ?? "";
+  }
+}
+
+/** Styles shared by the pages of the report */
+const styles = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+h1 { font-size: 1.4rem; } h2 { font-size: 1.1rem; margin-top: 2rem; }
+table { border-collapse: collapse; } td, th { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+pre { background: #f5f5f5; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+ul.steps { list-style: none; padding-left: 1.25rem; }
+.passed, .expected { color: #1a7f37; } .failed, .timedOut, .interrupted, .unexpected { color: #cf222e; } .skipped { color: #888; }
+.working { font-weight: bold; background: #fff8c5; }
+img { max-width: 640px; border: 1px solid #ccc; }
+`;
+
+/**
+ * @param title - The title of the page
+ * @param body - The HTML body of the page
+ * @returns A self-contained HTML page
+ */
+function htmlPage(title: string, body: string) {
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(
+    title
+  )}</title><style>${styles}</style></head>
+<body>${body}</body></html>
+`;
+}
+
+/**
+ * @param headers - The column headers
+ * @param rows - The cells of every row, already escaped
+ * @param rowClasses - The CSS class of every row, if any
+ * @returns An HTML table
+ */
+function htmlTable(
+  headers: readonly string[],
+  rows: readonly (readonly string[])[],
+  rowClasses: readonly string[] = []
+) {
+  const head = headers.map((header) => `<th>${header}</th>`).join("");
+  const body = rows
+    .map(
+      (cells, index) =>
+        `<tr class="${rowClasses[index] ?? ""}">${cells
+          .map((cell) => `<td>${cell}</td>`)
+          .join("")}</tr>`
+    )
+    .join("\n");
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * @param attachment - An attachment of a step
+ * @returns The attachment rendered in HTML
+ */
+function htmlAttachment(attachment: AttachmentSummary) {
+  const label = escapeHtml(attachment.name);
+  if (attachment.content === undefined) return `<div>${label}</div>`;
+  if (attachment.contentType.startsWith("image/"))
+    return `<div>${label}<br><img src="${attachment.content}" alt="${label}"></div>`;
+  return `<details><summary>${label}</summary><pre>${escapeHtml(
+    attachment.content
+  )}</pre></details>`;
+}
+
+/**
+ * @param steps - The step tree of a test
+ * @returns The step tree rendered in HTML, with failed steps expanded
+ */
+function htmlSteps(steps: readonly StepSummary[]): string {
+  if (!steps.length) return "";
+  const items = steps.map((step) => {
+    const status = step.error === undefined ? "passed" : "failed";
+    const details = [
+      ...(step.error !== undefined
+        ? [`<pre>${escapeHtml(step.error)}</pre>`]
+        : []),
+      ...step.attachments.map(htmlAttachment),
+      htmlSteps(step.steps),
+    ].join("");
+    const summary = `<span class="${status}">${escapeHtml(
+      step.title
+    )}</span> — ${step.duration} ms`;
+    return details
+      ? `<li><details${
+          status === "failed" ? " open" : ""
+        }><summary>${summary}</summary>${details}</details></li>`
+      : `<li>${summary}</li>`;
+  });
+  return `<ul class="steps">${items.join("\n")}</ul>`;
+}
+
+/**
+ * Renders the tab timeline, following the working tab through the events
+ *
+ * @param tabTimeline - The tab timeline of a test
+ * @param startTime - Time the test started, in milliseconds since the Unix epoch
+ * @returns The tab timeline rendered in HTML
+ */
+function htmlTabTimeline(tabTimeline: readonly TabEvent[], startTime: number) {
+  let workingTab = "none";
+  const rows = tabTimeline.map((event) => {
+    const tab = `${event.context}/${event.tab}`;
+    if (event.event === "focused") workingTab = tab;
+    else if (event.event === "closed" && workingTab === tab)
+      workingTab = "none";
+    return [
+      `+${event.time - startTime} ms`,
+      event.event,
+      escapeHtml(tab),
+      escapeHtml(event.pageType),
+      escapeHtml(event.preset ?? ""),
+      escapeHtml(workingTab),
+    ];
+  });
+  return htmlTable(
+    ["Time", "Event", "Context/Tab", "Page type", "Preset", "Working tab"],
+    rows,
+    rows.map((row) => (row[2] === row[5] ? "working" : ""))
+  );
+}
+
+/**
+ * @param summary - The summary of a test result
+ * @returns The HTML page of the test result
+ */
+function htmlTestPage(summary: TestSummary) {
+  const startTime = Date.parse(summary.startTime);
+  const sections = [
+    `<p><a href="../index.html">All tests</a></p>`,
+    `<h1>${escapeHtml(summary.title.join(" › "))}</h1>`,
+    `<p><span class="${summary.status}">${summary.status}</span> in ${
+      summary.duration
+    } ms${summary.retry ? `, retry ${summary.retry}` : ""} — ${escapeHtml(
+      `${summary.file}:${summary.line}`
+    )}</p>`,
+    ...summary.annotations.map(
+      (annotation) =>
+        `<p>${escapeHtml(annotation.type)}: ${escapeHtml(
+          annotation.description ?? ""
+        )}</p>`
+    ),
+    ...(summary.errors.length
+      ? [
+          "<h2>Errors</h2>",
+          ...summary.errors.map((error) => `<pre>${escapeHtml(error)}</pre>`),
+        ]
+      : []),
+    "<h2>Steps</h2>",
+    htmlSteps(summary.steps),
+    "<h2>Step timeline</h2>",
+    htmlTable(
+      [
+        "Start",
+        "Step",
+        "Group",
+        "Duration",
+        "Page type at start",
+        "Page type at end",
+      ],
+      summary.stepTimeline.map((timing) => [
+        `+${timing.startTime - startTime} ms`,
+        escapeHtml(timing.title),
+        escapeHtml(timing.parent ?? ""),
+        `${timing.duration} ms`,
+        escapeHtml(timing.pageTypeAtStart ?? ""),
+        escapeHtml(timing.pageTypeAtEnd ?? ""),
+      ]),
+      summary.stepTimeline.map((timing) => timing.status)
+    ),
+    "<h2>Tab timeline</h2>",
+    htmlTabTimeline(summary.tabTimeline, startTime),
+    ...(summary.capturedErrors.length
+      ? [
+          "<h2>Captured errors</h2>",
+          htmlTable(
+            [
+              "Time",
+              "Category",
+              "Tab",
+              "Page type",
+              "Preset",
+              "Step",
+              "Message",
+            ],
+            summary.capturedErrors.map((error) => [
+              escapeHtml(error.timestamp),
+              escapeHtml(error.category),
+              escapeHtml(error.tab),
+              escapeHtml(error.pageType ?? ""),
+              escapeHtml(error.preset ?? ""),
+              escapeHtml(error.step ?? ""),
+              escapeHtml(error.message),
+            ])
+          ),
+        ]
+      : []),
+    ...("testData" in summary
+      ? [
+          "<h2>Test data</h2>",
+          `<pre>${escapeHtml(JSON.stringify(summary.testData, null, 2))}</pre>`,
+        ]
+      : []),
+  ];
+  return htmlPage(summary.title.at(-1) ?? "Test", sections.join("\n"));
+}
+
+/**
+ * @param tests - The summaries of the test results of the run, by their file name
+ * @param history - The history of the runs, including the current one
+ * @param topFailingSteps - How many of the most common failing steps are listed
+ * @returns The HTML page listing the tests of the run and the most common failing steps
+ */
+function htmlIndexPage(
+  tests: ReadonlyMap<string, TestSummary>,
+  history: History,
+  topFailingSteps: number
+) {
+  const sections = [
+    "<h1>Playwrap report</h1>",
+    "<h2>Tests</h2>",
+    htmlTable(
+      ["Test", "Status", "Duration", "Failing steps"],
+      [...tests].map(([name, summary]) => [
+        `<a href="${testsFolderName}/${encodeURIComponent(
+          name
+        )}.html">${escapeHtml(summary.title.join(" › "))}</a>${
+          summary.retry ? ` (retry ${summary.retry})` : ""
+        }`,
+        `<span class="${summary.status}">${summary.status}</span>`,
+        `${summary.duration} ms`,
+        escapeHtml(
+          summary.failingSteps.map((failure) => failure.step).join("\n")
+        ),
+      ])
+    ),
+    `<h2>Most common failing steps over ${history.runs} run(s)</h2>`,
+    htmlTable(
+      ["Step", "Failures", "Last failed", "Last test", "Last error"],
+      history.failingSteps
+        .slice(0, topFailingSteps)
+        .map((entry) => [
+          escapeHtml(entry.step),
+          String(entry.failures),
+          escapeHtml(entry.lastFailedAt),
+          escapeHtml(entry.lastTest),
+          escapeHtml(entry.lastError),
+        ])
+    ),
+  ];
+  return htmlPage("Playwrap report", sections.join("\n"));
+}
+
+/**
+ * Playwright reporter that summarizes the playwrap sessions of the tests.
+ *
+ * @example
+ * // In playwright.config.ts:
+ * reporter: [["list"], ["playwrap/reporter", { outputFolder: "playwrap-report" }]],
+ * // Shows the final test data of passing tests too:
+ * use: { attachTestDataAlways: true },
+ */
+export default class PlaywrapReporter implements Reporter {
+  private readonly options: PlaywrapReporterOptions;
+
+  private outputFolder = "";
+
+  private history: History = { runs: 0, failingSteps: [] };
+
+  /** The summaries of the test results of the run, by their file name */
+  private readonly tests = new Map<string, TestSummary>();
+
+  constructor(options: PlaywrapReporterOptions = {}) {
+    this.options = options;
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  /**
+   * Loads the history of the previous runs, and clears the per-test files of the previous run
+   *
+   * @param config - The resolved configuration
+   */
+  onBegin(config: FullConfig) {
+    const configDir = config.configFile
+      ? path.dirname(config.configFile)
+      : process.cwd();
+    this.outputFolder = path.resolve(
+      configDir,
+      this.options.outputFolder ?? "playwrap-report"
+    );
+    this.history = readHistory(path.join(this.outputFolder, historyFileName));
+    fs.rmSync(path.join(this.outputFolder, testsFolderName), {
+      recursive: true,
+      force: true,
+    });
+    fs.mkdirSync(path.join(this.outputFolder, testsFolderName), {
+      recursive: true,
+    });
+  }
+
+  /**
+   * Writes the HTML page and the JSON file of a test result
+   *
+   * @param test - The test
+   * @param result - The result of one of its attempts
+   */
+  onTestEnd(test: TestCase, result: TestResult) {
+    const summary = summarizeTest(test, result);
+    const name = fileName(test, result);
+    this.tests.set(name, summary);
+    recordFailingSteps(this.history, summary);
+    const file = path.join(this.outputFolder, testsFolderName, name);
+    fs.writeFileSync(`${file}.json`, JSON.stringify(summary, null, 2));
+    fs.writeFileSync(`${file}.html`, htmlTestPage(summary));
+  }
+
+  /**
+   * Writes the history, trimmed to the steps that failed most recently, and the HTML page
+   * listing the tests of the run and the most common failing steps
+   */
+  onEnd() {
+    this.history.runs++;
+    this.history.failingSteps = this.history.failingSteps
+      .sort((a, b) => b.lastFailedAt.localeCompare(a.lastFailedAt))
+      .slice(0, this.options.historySize ?? 200)
+      .sort((a, b) => b.failures - a.failures);
+    fs.writeFileSync(
+      path.join(this.outputFolder, historyFileName),
+      JSON.stringify(this.history, null, 2)
+    );
+    fs.writeFileSync(
+      path.join(this.outputFolder, "index.html"),
+      htmlIndexPage(
+        this.tests,
+        this.history,
+        this.options.topFailingSteps ?? 10
+      )
+    );
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @description This module provides a registry of cleanup callbacks for entities created during
+ * a test, such as users or orders created through API request contexts. The callbacks run in
+ * reverse order of registration once the test has finished, even if it failed.
+ */
+
+import { type APIRequestContext, expect, test } from "@playwright/test";
+import type { AliasOrIndex } from "../types/frameworkTypes.js";
+import { aliasDataHelper } from "../data/aliasDataHelper.js";
+import { requestHelper } from "../channel/requestHelper.js";
+
+/** A registered cleanup callback */
+interface Cleanup {
+  title: string;
+  callback: (requestContext?: APIRequestContext) => Promise<void>;
+  requestContext: undefined | AliasOrIndex;
+}
+
+/** Cleanup callbacks registered during the current test, in registration order */
+const cleanups: Cleanup[] = [];
+
+/**
+ * Registers a callback that undoes something created during the test.
+ *
+ * Typically called from within a step, right after the entity to clean up has been created.
+ *
+ * @param title - The name of the cleanup step to display in test reports
+ * @param callback - The function that undoes the change. If a request context is specified,
+ * it receives that context
+ * @param requestContext - The alias or index of the persistent request context the callback should use.
+ * The context is resolved when the cleanup runs
+ */
+function registerCleanup(
+  title: string,
+  callback: (requestContext?: APIRequestContext) => Promise<void>,
+  requestContext?: AliasOrIndex
+) {
+  cleanups.push({ title, callback, requestContext });
+}
+
+/**
+ * Runs all registered cleanup callbacks in reverse order of registration, each as its own step.
+ *
+ * Failing cleanups do not prevent the remaining ones from running. Their errors are reported
+ * as soft assertion failures, so that the original error of the test is not hidden.
+ */
+async function runCleanups() {
+  const failures: string[] = [];
+  for (const cleanup of cleanups.reverse()) {
+    const title = `Cleaning up: ${cleanup.title}`;
+    try {
+      await test.step(title, async () => {
+        console.log(title);
+        await (cleanup.requestContext === undefined
+          ? cleanup.callback()
+          : cleanup.callback(
+              requestHelper.requestContext(cleanup.requestContext)
+            ));
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : `${error}`;
+      const requestContextLabel =
+        cleanup.requestContext === undefined
+          ? ""
+          : ` (Context ${aliasDataHelper.label(cleanup.requestContext)})`;
+      failures.push(`${cleanup.title}${requestContextLabel}: ${reason}`);
+    }
+  }
+  cleanups.length = 0;
+  expect
+    .soft(
+      failures,
+      `${failures.length} cleanup(s) failed:\n${failures.join("\n")}`
+    )
+    .toHaveLength(0);
+}
+
+/**
+ * Removes all registered cleanup callbacks without running them
+ *
+ * This method is typically called at the start of a test to ensure a clean state.
+ */
+function resetCleanups() {
+  cleanups.length = 0;
+}
+
+/**
+ * Helper module for cleaning up entities created during a test.
+ *
+ * Steps and page objects register undo callbacks as they create entities, and the
+ * auto fixture runs them once the test has finished.
+ */
+export const cleanupHelper = {
+  registerCleanup,
+  runCleanups,
+  resetCleanups,
+} as const;
@@ -1,5 +1,344 @@
+import type {
+  APIRequestContext,
+  BrowserContext,
+  BrowserContextOptions,
+  Locator,
+  Page,
+  Route,
+} from "@playwright/test";
+
 export interface ErrorListenerOptions {
   failOnJsError: boolean;
   failOnConnectionError: boolean;
   failOnRequestError: boolean;
-}
\ No newline at end of file
+  /** Types of console messages that are reported, e.g. ["error", "warning"] */
+  failOnConsoleMessage?: ("error" | "warning")[];
+  /**
+   * Reports unexpected dialogs, handling them with the specified policy.
+   * Every dialog is handled, since Playwright no longer dismisses dialogs once a listener is attached.
+   * Ignore rules only stop a dialog from being reported
+   */
+  failOnDialog?: "accept" | "dismiss";
+  /** Reports page crashes */
+  failOnCrash?: boolean;
+  /** Reports WebSocket errors */
+  failOnWebSocketError?: boolean;
+  /**
+   * Reports WebSocket connections closed by the server with an abnormal code.
+   * Close codes are only exposed by Playwright's WebSocket routing, so the WebSockets of every context
+   * opened through playwrap are routed to their server. WebSockets the test routes itself, through
+   * page.routeWebSocket or context.routeWebSocket, are left to those routes and not checked
+   */
+  failOnWebSocketClose?: boolean;
+  /** Reports HTTP error responses (status >= 400) received by API request contexts */
+  failOnApiRequestError?: boolean;
+  /** Reports network failures of requests sent by API request contexts */
+  failOnApiConnectionError?: boolean;
+  /**
+   * - "fail" (default): the test fails as soon as an error is detected
+   * - "collect": errors are recorded and attached to the report,
+   * and the test fails once during teardown with a summary of all of them
+   */
+  mode?: "fail" | "collect";
+  /** Rules for errors that should not be reported, per category */
+  ignore?: ErrorIgnoreRules;
+}
+
+/** The kinds of errors detected by the error listener */
+export type ErrorCategory =
+  | "jsError"
+  | "connectionError"
+  | "requestError"
+  | "consoleMessage"
+  | "dialog"
+  | "crash"
+  | "webSocketError"
+  | "apiRequestError"
+  | "apiConnectionError";
+
+/**
+ * Describes errors that should not be reported. Every specified criterion must match.
+ * A rule without criteria matches every error of its category.
+ */
+export interface ErrorIgnoreRule {
+  /** URL glob (`*` within a path segment, `**` across segments, `{a,b}` alternatives) or RegExp */
+  url?: string | RegExp;
+  /** HTTP method, e.g. "POST" */
+  method?: string;
+  /**
+   * Status code, or inclusive range of status codes, e.g. [500, 599].
+   * For WebSocket errors, the close code
+   */
+  status?: number | [number, number];
+  /** Substring or RegExp matched against the error message */
+  message?: string | RegExp;
+}
+
+export type ErrorIgnoreRules = Partial<
+  Record<ErrorCategory, ErrorIgnoreRule[]>
+>;
+
+/** An error recorded by the error listener in "collect" mode */
+export interface CapturedError {
+  /** ISO timestamp of the moment the error was detected */
+  timestamp: string;
+  category: ErrorCategory;
+  message: string;
+  /** The alias or indices of the tab, or the alias of the API request context, the error occurred in */
+  tab: string;
+  pageType: string | undefined;
+  /** The preset the tab's context was created from, if any */
+  preset?: string;
+  /** The title of the step that was running when the error occurred */
+  step: string | undefined;
+}
+
+/** HTTP methods supported by the chainable request builder */
+export type RequestMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** Options accepted by Playwright's APIRequestContext.fetch */
+type FetchOptions = NonNullable<Parameters<APIRequestContext["fetch"]>[1]>;
+
+export interface RequestOptions extends Omit<FetchOptions, "method"> {
+  /**
+   * Test data key under which the response's status, headers and body are stored, as a {@link StoredResponse}.
+   * The key must be declared with a StoredResponse value in the {@link TestDataRegistry}.
+   */
+  responseKey?: ResponseKey;
+  /**
+   * Errors caused by this request that the error listener should not report, e.g. { status: 404 }.
+   * An empty rule ignores all errors
+   */
+  ignoreErrors?: ErrorIgnoreRule;
+}
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Chainable methods that queue requests with the focused request context, e.g.
+ * sendPostRequest("/orders", { data: order }).get(() => `/orders/${getLatestTestData("orderId")}`)
+ */
+export interface RequestBuilder {
+  get(url: Lazy<string>, options?: Lazy<RequestOptions>): RequestBuilder;
+  post(url: Lazy<string>, options?: Lazy<RequestOptions>): RequestBuilder;
+  put(url: Lazy<string>, options?: Lazy<RequestOptions>): RequestBuilder;
+  patch(url: Lazy<string>, options?: Lazy<RequestOptions>): RequestBuilder;
+  delete(url: Lazy<string>, options?: Lazy<RequestOptions>): RequestBuilder;
+}
+
+/** A reference to a browser context, tab or request context, either by alias or by index */
+export type AliasOrIndex = string | number;
+
+export interface NewTabOptions {
+  /** Alias under which the new tab can be referenced within its context */
+  tabAlias?: string;
+}
+
+export interface NewContextOptions extends NewTabOptions {
+  /** Alias under which the new context can be referenced */
+  contextAlias?: string;
+  /** Name of a registered context preset the new context is created from */
+  preset?: string;
+  /** Options of the new context, applied on top of those of the preset, if any */
+  overrides?: BrowserContextOptions;
+}
+
+/**
+ * What happens when the working tab is closed by the application, e.g. through window.close()
+ * - "fail": any further access to the working tab fails, naming the closed tab
+ * - "fallback": the most recently opened tab, preferably of the same context, becomes the working tab
+ */
+export type WorkingTabClosePolicy = "fail" | "fallback";
+
+/**
+ * Registry mapping test data keys to the type of their values.
+ * Keys that are not declared store string values.
+ *
+ * @example
+ * declare module "playwrap" {
+ *   interface TestDataRegistry {
+ *     orderId: number;
+ *     user: { name: string; admin: boolean };
+ *     orderResponse: StoredResponse;
+ *   }
+ * }
+ */
+export interface TestDataRegistry {}
+
+/** The type of the values stored under a test data key */
+export type TestDataValue<K extends string> = K extends keyof TestDataRegistry
+  ? TestDataRegistry[K]
+  : string;
+
+/** The test data keys declared with a {@link StoredResponse} value in the {@link TestDataRegistry} */
+export type ResponseKey = {
+  [K in Extract<
+    keyof TestDataRegistry,
+    string
+  >]: TestDataRegistry[K] extends StoredResponse ? K : never;
+}[Extract<keyof TestDataRegistry, string>];
+
+export interface StepOptions {
+  /** How many times the step is retried after failing. Defaults to 0 */
+  retries?: number;
+  /** Delay in milliseconds before the first retry, doubled before every further retry. Defaults to 0 */
+  backoff?: number;
+  /** Maximum time in milliseconds the step can take, including its retries */
+  timeout?: number;
+  /**
+   * Whether a failure of the step lets the following steps run.
+   * Soft failures are shown in the report, and fail the test when the step sequence is awaited
+   */
+  soft?: boolean;
+  /** Whether the step internals are hidden from error locations, see Playwright's test.step */
+  box?: boolean;
+}
+
+/**
+ * A value that can be provided when a step sequence is built, or lazily through a function
+ * evaluated when the step runs, e.g. to refer to test data that a previous step stores.
+ */
+export type Lazy<T> = T | (() => T | Promise<T>);
+
+/**
+ * Describes how to recognize a page type in a tab. Every specified criterion must match
+ */
+export interface PageTypeDetector {
+  /** URL glob (see {@link ErrorIgnoreRule.url}) or regular expression matching the whole URL of the tab */
+  url?: string | RegExp;
+  /** Title of the tab, or a regular expression matching it */
+  title?: string | RegExp;
+  /** Selector of an element, or a function returning a locator, that must be visible in the tab */
+  locator?: string | ((tab: Page) => Locator);
+}
+
+/**
+ * The page types of an application, each mapped to the page types it can navigate to
+ *
+ * @example
+ * { Login: ["Dashboard"], Dashboard: ["Settings", "Login"], Settings: ["Dashboard"] }
+ */
+export type PageFlow = Record<string, readonly string[]>;
+
+/** The page types declared by a page flow */
+export type PageTypeOf<F extends PageFlow> = keyof F & string;
+
+/** The page types that a page type of a page flow can navigate to */
+export type NextPageTypeOf<
+  F extends PageFlow,
+  From extends PageTypeOf<F>
+> = F[From][number];
+
+export interface RoleDefinition {
+  /**
+   * Logs in through a new browser context, e.g. by filling in the login form, or by sending
+   * a login request through context.request. The resulting storage state is saved and reused
+   */
+  login: (context: BrowserContext) => Promise<void>;
+  /**
+   * Checks whether a saved session is still valid, e.g. by requesting the current user.
+   * If it resolves to false, the role logs in again
+   */
+  validate?: (request: APIRequestContext) => Promise<boolean>;
+  /**
+   * Whether the role logs in once per worker, or once per run for all workers. Defaults to "worker"
+   */
+  scope?: "worker" | "run";
+  /**
+   * Time in milliseconds after which the saved session expires, on top of the expiry of its cookies
+   */
+  maxAge?: number;
+}
+
+/** The stubbed response of a mock, as accepted by Playwright's Route.fulfill, e.g. { json: {...} }, { path: "..." } or { status: 503 } */
+export type MockResponse = NonNullable<Parameters<Route["fulfill"]>[0]>;
+
+export interface MockOptions {
+  /** HTTP method the mock applies to, e.g. "POST". Defaults to all methods */
+  method?: string;
+  /**
+   * Whether the mock applies to the working context only,
+   * or to all open contexts and those opened later in the test. Defaults to "context"
+   */
+  scope?: "context" | "all";
+}
+
+/**
+ * Whether the network traffic of every context opened through playwrap is
+ * - "off": neither recorded nor replayed
+ * - "record": recorded to a HAR file per context
+ * - "replay": served from the HAR files recorded previously
+ */
+export type HarMode = "off" | "record" | "replay";
+
+/** The timing of a step queued through the step sequence, as recorded in the step timeline */
+export interface StepTiming {
+  title: string;
+  /** Title of the step group the step belongs to, if any */
+  parent?: string;
+  /** Time the step started, in milliseconds since the Unix epoch */
+  startTime: number;
+  /** How long the step took, in milliseconds */
+  duration: number;
+  /** Page type of the working tab when the step started, if there was a working tab */
+  pageTypeAtStart?: string;
+  /** Page type of the working tab when the step ended, if there was a working tab */
+  pageTypeAtEnd?: string;
+  status: "passed" | "failed";
+}
+
+/**
+ * A maximum duration for the steps matching every specified criterion,
+ * e.g. { title: /Login/, maxDuration: 3000 } or { pageType: "Dashboard", maxDuration: 2000 }
+ */
+export interface StepBudget {
+  /** Substring or RegExp matched against the step title */
+  title?: string | RegExp;
+  /** Page type of the working tab when the step ended */
+  pageType?: string;
+  /** Maximum duration of a matching step, in milliseconds */
+  maxDuration: number;
+  /** Whether exceeding the budget fails the test, or only adds a warning to the report. Defaults to "fail" */
+  severity?: "fail" | "warn";
+}
+
+/** An event of a tab, as recorded in the tab timeline */
+export interface TabEvent {
+  /** Time the event happened, in milliseconds since the Unix epoch */
+  time: number;
+  /**
+   * - "opened": the tab started being tracked
+   * - "closed": the tab was closed, by the test or by the application
+   * - "focused": the tab became the working tab
+   * - "pageTypeChanged": the tab was given a new page type
+   */
+  event: "opened" | "closed" | "focused" | "pageTypeChanged";
+  /** Alias of the tab's context, or its number in the order the contexts were opened */
+  context: string | number;
+  /** Alias of the tab, or its number in the order the tabs of its context were opened */
+  tab: string | number;
+  /** Page type of the tab after the event */
+  pageType: string;
+  /** Preset the tab's context was created from, if any */
+  preset?: string;
+}
+
+/** Options of the playwrap reporter, e.g. reporter: [["playwrap/reporter", { outputFolder: "playwrap-report" }]] */
+export interface PlaywrapReporterOptions {
+  /**
+   * Folder the report is written to, relative to the configuration file. Defaults to "playwrap-report".
+   * The history of the failing steps is kept in this folder across runs
+   */
+  outputFolder?: string;
+  /** How many of the most common failing steps are listed in the report. Defaults to 10 */
+  topFailingSteps?: number;
+  /**
+   * How many failing steps the history keeps. Once it is full, the steps that failed least recently are dropped.
+   * Defaults to 200
+   */
+  historySize?: number;
+}